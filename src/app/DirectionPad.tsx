@@ -0,0 +1,83 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import type { Direction } from "@/game/engine";
+import styles from "./PacmanGame.module.css";
+
+const COARSE_POINTER_QUERY = "(pointer: coarse)";
+
+const PAD_BUTTONS: {
+  label: string;
+  symbol: string;
+  className: string;
+  dir: Direction;
+}[] = [
+  { label: "Up", symbol: "▲", className: styles.padUp, dir: { x: 0, y: -1 } },
+  { label: "Left", symbol: "◀", className: styles.padLeft, dir: { x: -1, y: 0 } },
+  { label: "Right", symbol: "▶", className: styles.padRight, dir: { x: 1, y: 0 } },
+  { label: "Down", symbol: "▼", className: styles.padDown, dir: { x: 0, y: 1 } },
+];
+
+function subscribeToPointerQuery(onChange: () => void) {
+  const query = window.matchMedia(COARSE_POINTER_QUERY);
+  query.addEventListener("change", onChange);
+  return () => query.removeEventListener("change", onChange);
+}
+
+function hasCoarsePointer() {
+  return window.matchMedia(COARSE_POINTER_QUERY).matches;
+}
+
+interface DirectionPadProps {
+  paused: boolean;
+  onDirection: (direction: Direction) => void;
+  onTogglePause: () => void;
+}
+
+/**
+ * On-screen D-pad for touch screens. Renders nothing unless the primary
+ * pointer is coarse, so desktop players never see it.
+ */
+export default function DirectionPad({
+  paused,
+  onDirection,
+  onTogglePause,
+}: DirectionPadProps) {
+  const coarsePointer = useSyncExternalStore(
+    subscribeToPointerQuery,
+    hasCoarsePointer,
+    () => false,
+  );
+  if (!coarsePointer) {
+    return null;
+  }
+
+  return (
+    <div className={styles.directionPad}>
+      {PAD_BUTTONS.map((button) => (
+        <button
+          key={button.label}
+          type="button"
+          className={`${styles.padButton} ${button.className}`}
+          aria-label={button.label}
+          // Pointer-down instead of click so a turn is buffered the moment the
+          // thumb lands, not when it lifts.
+          onPointerDown={(event) => {
+            event.preventDefault();
+            onDirection(button.dir);
+          }}
+        >
+          {button.symbol}
+        </button>
+      ))}
+      <button
+        type="button"
+        className={`${styles.padButton} ${styles.padCenter}`}
+        aria-label={paused ? "Resume" : "Pause"}
+        onClick={onTogglePause}
+      >
+        {paused ? "▶" : "❚❚"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import { fruitForLevel, type FruitKind } from "@/game/engine";
+import styles from "./PacmanGame.module.css";
+
+const ICON_SIZE = 24;
+// The arcade shows the bonus fruit of the current and six previous levels.
+const FRUIT_HISTORY = 7;
+
+function circle(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  radius: number,
+  color: string,
+) {
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+function leaf(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  size: number,
+) {
+  ctx.fillStyle = "#3fc43f";
+  ctx.beginPath();
+  ctx.ellipse(x, y, size * 0.16, size * 0.07, -Math.PI / 6, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+/**
+ * Draws a bonus fruit centred on (cx, cy), fitting a square of the given size.
+ */
+export function drawFruit(
+  ctx: CanvasRenderingContext2D,
+  kind: FruitKind,
+  cx: number,
+  cy: number,
+  size: number,
+) {
+  const r = size / 2;
+  ctx.save();
+  ctx.lineCap = "round";
+
+  switch (kind) {
+    case "cherry": {
+      ctx.strokeStyle = "#c27a2c";
+      ctx.lineWidth = size * 0.06;
+      ctx.beginPath();
+      ctx.moveTo(cx - r * 0.4, cy + r * 0.2);
+      ctx.quadraticCurveTo(cx, cy - r * 0.4, cx + r * 0.5, cy - r * 0.75);
+      ctx.moveTo(cx + r * 0.35, cy + r * 0.35);
+      ctx.quadraticCurveTo(cx + r * 0.4, cy - r * 0.2, cx + r * 0.5, cy - r * 0.75);
+      ctx.stroke();
+      circle(ctx, cx - r * 0.4, cy + r * 0.4, r * 0.36, "#ff1c1c");
+      circle(ctx, cx + r * 0.35, cy + r * 0.55, r * 0.36, "#ff1c1c");
+      circle(ctx, cx - r * 0.52, cy + r * 0.3, r * 0.08, "#ffffff");
+      break;
+    }
+    case "strawberry": {
+      ctx.fillStyle = "#ff1c1c";
+      ctx.beginPath();
+      ctx.moveTo(cx - r * 0.75, cy - r * 0.35);
+      ctx.quadraticCurveTo(cx, cy - r * 0.7, cx + r * 0.75, cy - r * 0.35);
+      ctx.quadraticCurveTo(cx + r * 0.6, cy + r * 0.5, cx, cy + r * 0.85);
+      ctx.quadraticCurveTo(cx - r * 0.6, cy + r * 0.5, cx - r * 0.75, cy - r * 0.35);
+      ctx.fill();
+      for (const [sx, sy] of [
+        [-0.35, -0.1],
+        [0.3, -0.15],
+        [0, 0.15],
+        [-0.2, 0.45],
+        [0.2, 0.45],
+      ]) {
+        circle(ctx, cx + r * sx, cy + r * sy, r * 0.06, "#ffffff");
+      }
+      leaf(ctx, cx - r * 0.2, cy - r * 0.6, size);
+      leaf(ctx, cx + r * 0.2, cy - r * 0.6, size);
+      break;
+    }
+    case "orange": {
+      circle(ctx, cx, cy + r * 0.1, r * 0.7, "#ffa500");
+      leaf(ctx, cx + r * 0.25, cy - r * 0.65, size);
+      break;
+    }
+    case "apple": {
+      circle(ctx, cx - r * 0.25, cy + r * 0.15, r * 0.55, "#ff1c1c");
+      circle(ctx, cx + r * 0.25, cy + r * 0.15, r * 0.55, "#ff1c1c");
+      ctx.strokeStyle = "#c27a2c";
+      ctx.lineWidth = size * 0.06;
+      ctx.beginPath();
+      ctx.moveTo(cx, cy - r * 0.3);
+      ctx.lineTo(cx + r * 0.1, cy - r * 0.8);
+      ctx.stroke();
+      circle(ctx, cx - r * 0.45, cy, r * 0.1, "#ffd0d0");
+      break;
+    }
+    case "melon": {
+      circle(ctx, cx, cy + r * 0.1, r * 0.75, "#7ad84a");
+      ctx.strokeStyle = "#1d7a1d";
+      ctx.lineWidth = size * 0.05;
+      for (const offset of [-0.35, 0, 0.35]) {
+        ctx.beginPath();
+        ctx.moveTo(cx + r * offset, cy - r * 0.6);
+        ctx.quadraticCurveTo(
+          cx + r * offset * 1.6,
+          cy + r * 0.1,
+          cx + r * offset,
+          cy + r * 0.8,
+        );
+        ctx.stroke();
+      }
+      break;
+    }
+    case "galaxian": {
+      ctx.fillStyle = "#ffe600";
+      ctx.beginPath();
+      ctx.moveTo(cx, cy - r * 0.8);
+      ctx.lineTo(cx + r * 0.3, cy + r * 0.2);
+      ctx.lineTo(cx, cy + r * 0.8);
+      ctx.lineTo(cx - r * 0.3, cy + r * 0.2);
+      ctx.closePath();
+      ctx.fill();
+      ctx.fillStyle = "#ff1c1c";
+      ctx.beginPath();
+      ctx.moveTo(cx - r * 0.85, cy - r * 0.2);
+      ctx.lineTo(cx, cy + r * 0.15);
+      ctx.lineTo(cx + r * 0.85, cy - r * 0.2);
+      ctx.lineTo(cx, cy + r * 0.45);
+      ctx.closePath();
+      ctx.fill();
+      circle(ctx, cx, cy - r * 0.1, r * 0.14, "#2a5bff");
+      break;
+    }
+    case "bell": {
+      ctx.fillStyle = "#ffe600";
+      ctx.beginPath();
+      ctx.moveTo(cx - r * 0.75, cy + r * 0.5);
+      ctx.quadraticCurveTo(cx - r * 0.6, cy - r * 0.85, cx, cy - r * 0.8);
+      ctx.quadraticCurveTo(cx + r * 0.6, cy - r * 0.85, cx + r * 0.75, cy + r * 0.5);
+      ctx.closePath();
+      ctx.fill();
+      circle(ctx, cx, cy + r * 0.6, r * 0.18, "#65f7ff");
+      break;
+    }
+    case "key": {
+      ctx.fillStyle = "#65f7ff";
+      ctx.fillRect(cx - r * 0.45, cy - r * 0.85, r * 0.9, r * 0.55);
+      circle(ctx, cx, cy - r * 0.58, r * 0.12, "#000000");
+      ctx.strokeStyle = "#ffffff";
+      ctx.lineWidth = size * 0.08;
+      ctx.beginPath();
+      ctx.moveTo(cx, cy - r * 0.3);
+      ctx.lineTo(cx, cy + r * 0.85);
+      ctx.moveTo(cx, cy + r * 0.45);
+      ctx.lineTo(cx + r * 0.3, cy + r * 0.45);
+      ctx.moveTo(cx, cy + r * 0.75);
+      ctx.lineTo(cx + r * 0.3, cy + r * 0.75);
+      ctx.stroke();
+      break;
+    }
+  }
+
+  ctx.restore();
+}
+
+interface FruitRowProps {
+  levelNumber: number;
+}
+
+export default function FruitRow({ levelNumber }: FruitRowProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const kinds = useMemo(() => {
+    const firstLevel = Math.max(1, levelNumber - FRUIT_HISTORY + 1);
+    return Array.from(
+      { length: levelNumber - firstLevel + 1 },
+      (_, index) => fruitForLevel(firstLevel + index).kind,
+    );
+  }, [levelNumber]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) {
+      return;
+    }
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(ICON_SIZE * FRUIT_HISTORY * ratio);
+    canvas.height = Math.round(ICON_SIZE * ratio);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, ICON_SIZE * FRUIT_HISTORY, ICON_SIZE);
+    // Newest fruit on the right, as on the arcade cabinet.
+    const offset = FRUIT_HISTORY - kinds.length;
+    kinds.forEach((kind, index) => {
+      drawFruit(
+        ctx,
+        kind,
+        (offset + index + 0.5) * ICON_SIZE,
+        ICON_SIZE / 2,
+        ICON_SIZE * 0.9,
+      );
+    });
+  }, [kinds]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={styles.fruitRow}
+      style={{ width: ICON_SIZE * FRUIT_HISTORY, height: ICON_SIZE }}
+      aria-label={`Bonus fruits: ${kinds.join(", ")}`}
+    />
+  );
+}
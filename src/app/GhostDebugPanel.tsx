@@ -0,0 +1,39 @@
+"use client";
+
+import type { GhostDebugRow } from "./ghostDebug";
+import styles from "./PacmanGame.module.css";
+
+interface GhostDebugPanelProps {
+  rows: GhostDebugRow[];
+}
+
+export default function GhostDebugPanel({ rows }: GhostDebugPanelProps) {
+  return (
+    <table className={styles.ghostPanel}>
+      <thead>
+        <tr>
+          <th>Ghost</th>
+          <th>State</th>
+          <th>Position</th>
+          <th>Target</th>
+          <th>Path</th>
+          <th>Release</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.id}>
+            <td style={{ color: row.color }}>{row.id}</td>
+            <td>{row.state}</td>
+            <td>
+              {row.x.toFixed(2)}, {row.y.toFixed(2)}
+            </td>
+            <td>{row.target ? `${row.target.col}, ${row.target.row}` : "–"}</td>
+            <td>{row.pathLength}</td>
+            <td>{row.releaseIn !== null ? `${row.releaseIn.toFixed(1)}s` : "–"}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
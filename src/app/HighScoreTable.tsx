@@ -0,0 +1,46 @@
+"use client";
+
+import type { HighScoreEntry } from "@/game/highScores";
+import styles from "./PacmanGame.module.css";
+
+interface HighScoreTableProps {
+  entries: HighScoreEntry[];
+  highlight: HighScoreEntry | null;
+}
+
+export default function HighScoreTable({
+  entries,
+  highlight,
+}: HighScoreTableProps) {
+  if (entries.length === 0) {
+    return <p className={styles.tableEmpty}>No high scores yet</p>;
+  }
+
+  return (
+    <table className={styles.highScores}>
+      <thead>
+        <tr>
+          <th>#</th>
+          <th>Name</th>
+          <th>Score</th>
+          <th>Lvl</th>
+          <th>Date</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry, index) => (
+          <tr
+            key={`${entry.date}-${index}`}
+            className={entry === highlight ? styles.highlightRow : undefined}
+          >
+            <td>{index + 1}</td>
+            <td>{entry.initials}</td>
+            <td>{entry.score.toString().padStart(6, "0")}</td>
+            <td>{entry.level}</td>
+            <td>{new Date(entry.date).toLocaleDateString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useState } from "react";
+import { INITIALS_LENGTH, normalizeInitials } from "@/game/highScores";
+import styles from "./PacmanGame.module.css";
+
+interface InitialsEntryProps {
+  score: number;
+  // Names whose score this is when more than one player can qualify.
+  label?: string;
+  onSubmit: (initials: string) => void;
+}
+
+export default function InitialsEntry({
+  score,
+  label,
+  onSubmit,
+}: InitialsEntryProps) {
+  const [initials, setInitials] = useState("");
+  const complete = initials.length === INITIALS_LENGTH;
+
+  return (
+    <form
+      className={styles.initialsEntry}
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (complete) {
+          onSubmit(initials);
+        }
+      }}
+    >
+      <span>{label ? `${label}: New High Score!` : "New High Score!"}</span>
+      <span className={styles.initialsScore}>
+        {score.toString().padStart(6, "0")}
+      </span>
+      <label htmlFor="initials">Enter your initials</label>
+      <input
+        id="initials"
+        className={styles.initialsInput}
+        value={initials}
+        onChange={(event) => setInitials(normalizeInitials(event.target.value))}
+        maxLength={INITIALS_LENGTH}
+        autoComplete="off"
+        autoCapitalize="characters"
+        spellCheck={false}
+        autoFocus
+      />
+      <button type="submit" disabled={!complete}>
+        Save
+      </button>
+    </form>
+  );
+}
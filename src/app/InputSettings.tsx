@@ -0,0 +1,209 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  bindGamepadButton,
+  bindKey,
+  DEFAULT_INPUT_BINDINGS,
+  firstPressedButton,
+  INPUT_ACTIONS,
+  type InputAction,
+  type InputBindings,
+} from "@/game/input";
+import styles from "./PacmanGame.module.css";
+
+type BindingDevice = "keyboard" | "gamepad";
+
+const ACTION_LABELS: Record<InputAction, string> = {
+  up: "Up",
+  down: "Down",
+  left: "Left",
+  right: "Right",
+  pause: "Pause",
+  restart: "Restart",
+};
+
+// Names for the buttons of the standard gamepad mapping; others show their
+// index.
+const BUTTON_NAMES: Record<number, string> = {
+  0: "A",
+  1: "B",
+  2: "X",
+  3: "Y",
+  4: "LB",
+  5: "RB",
+  6: "LT",
+  7: "RT",
+  8: "Select",
+  9: "Start",
+  12: "D-pad ↑",
+  13: "D-pad ↓",
+  14: "D-pad ←",
+  15: "D-pad →",
+};
+
+function formatKey(key: string): string {
+  if (key === " ") {
+    return "Space";
+  }
+  return key.length === 1 ? key.toUpperCase() : key.replace(/^Arrow/, "");
+}
+
+function formatButton(button: number): string {
+  return BUTTON_NAMES[button] ?? `Button ${button}`;
+}
+
+interface InputSettingsProps {
+  bindings: InputBindings;
+  onChange: (bindings: InputBindings) => void;
+  onOpen: () => void;
+}
+
+export default function InputSettings({
+  bindings,
+  onChange,
+  onOpen,
+}: InputSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const [capture, setCapture] = useState<{
+    action: InputAction;
+    device: BindingDevice;
+  } | null>(null);
+
+  useEffect(() => {
+    if (capture?.device !== "keyboard") {
+      return;
+    }
+    // Registered in the capture phase so the game's own key handler never
+    // sees the key being bound.
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      onChange(bindKey(bindings, capture.action, event.key));
+      setCapture(null);
+    };
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown, true);
+    };
+  }, [bindings, capture, onChange]);
+
+  useEffect(() => {
+    if (capture?.device !== "gamepad") {
+      return;
+    }
+    let frame = 0;
+    // A button that is already down when capture starts is ignored until it
+    // has been released once.
+    let released = false;
+    const poll = () => {
+      const button = firstPressedButton(navigator.getGamepads?.() ?? []);
+      if (button === null) {
+        released = true;
+      } else if (released) {
+        onChange(bindGamepadButton(bindings, capture.action, button));
+        setCapture(null);
+        return;
+      }
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [bindings, capture, onChange]);
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          onOpen();
+          setOpen(true);
+        }}
+      >
+        Controls
+      </button>
+    );
+  }
+
+  const bindingButton = (action: InputAction, device: BindingDevice) => {
+    const listening =
+      capture?.action === action && capture.device === device;
+    const label =
+      device === "keyboard"
+        ? bindings.keyboard[action].map(formatKey).join(" / ")
+        : bindings.gamepad[action].map(formatButton).join(" / ");
+    return (
+      <button
+        type="button"
+        className={listening ? styles.bindingListening : undefined}
+        onClick={(event) => {
+          // Keeps Space or Enter from re-clicking the button once bound.
+          event.currentTarget.blur();
+          setCapture(listening ? null : { action, device });
+        }}
+      >
+        {listening
+          ? device === "keyboard"
+            ? "Press a key…"
+            : "Press a button…"
+          : label || "Unbound"}
+      </button>
+    );
+  };
+
+  return (
+    <div className={styles.inputSettings}>
+      <table>
+        <thead>
+          <tr>
+            <th>Action</th>
+            <th>Keyboard</th>
+            <th>Gamepad</th>
+          </tr>
+        </thead>
+        <tbody>
+          {INPUT_ACTIONS.map((action) => (
+            <tr key={action}>
+              <td>{ACTION_LABELS[action]}</td>
+              <td>{bindingButton(action, "keyboard")}</td>
+              <td>{bindingButton(action, "gamepad")}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <label>
+        Stick deadzone&nbsp;
+        <input
+          type="range"
+          min={0.1}
+          max={0.9}
+          step={0.05}
+          value={bindings.stickDeadzone}
+          onChange={(event) =>
+            onChange({ ...bindings, stickDeadzone: Number(event.target.value) })
+          }
+        />
+      </label>
+      <div className={styles.controls}>
+        <button
+          type="button"
+          onClick={() => {
+            setCapture(null);
+            onChange(structuredClone(DEFAULT_INPUT_BINDINGS));
+          }}
+        >
+          Reset to defaults
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setCapture(null);
+            setOpen(false);
+          }}
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
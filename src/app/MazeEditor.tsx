@@ -0,0 +1,407 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { MazeDefinition, MazeMetadata } from "@/game/levels";
+import bundledLevelPack from "@/game/levels/bundled.json";
+import {
+  decodeMazePayload,
+  DEFAULT_CUSTOM_METADATA,
+  encodeMazePayload,
+  fitMetadataToLayout,
+  mazeToJson,
+  mazeToText,
+  parseMazeImport,
+  validateMaze,
+} from "@/game/mazeShare";
+import styles from "./MazeEditor.module.css";
+
+const CELL_SIZE = 20;
+const MIN_SIZE = 5;
+const MAX_SIZE = 60;
+
+const TOOLS: { tile: string; label: string }[] = [
+  { tile: "#", label: "Wall" },
+  { tile: ".", label: "Pellet" },
+  { tile: "o", label: "Power pellet" },
+  { tile: " ", label: "Empty" },
+  { tile: "G", label: "Ghost pen" },
+  { tile: "=", label: "Door" },
+  { tile: "T", label: "Tunnel" },
+  { tile: "P", label: "Player spawn" },
+];
+
+interface EditorMaze {
+  grid: string[][];
+  metadata: MazeMetadata;
+}
+
+function toEditorMaze(definition: MazeDefinition): EditorMaze {
+  return {
+    grid: definition.layout.map((line) => line.split("")),
+    metadata: { ...definition.metadata },
+  };
+}
+
+// The metadata the grid has outgrown is dropped here rather than from the
+// maze itself, so painting a tile back brings it back too.
+function toDefinition(maze: EditorMaze): MazeDefinition {
+  return fitMetadataToLayout({
+    layout: maze.grid.map((row) => row.join("")),
+    metadata: maze.metadata,
+  });
+}
+
+// Rows shorter than the first are padded with wall so every maze fits a
+// rectangular grid, even one that would fail validation.
+function resizeGrid(grid: string[][], width: number, height: number) {
+  return Array.from({ length: height }, (_, row) =>
+    Array.from({ length: width }, (_, col) => grid[row]?.[col] ?? "#"),
+  );
+}
+
+function initialMaze(payload: string | null): {
+  maze: EditorMaze;
+  error: string | null;
+} {
+  // New mazes start as a copy of the first bundled one.
+  const bundled = bundledLevelPack.mazes[0] as MazeDefinition;
+  const classic = {
+    ...bundled,
+    metadata: { ...bundled.metadata, ...DEFAULT_CUSTOM_METADATA },
+  };
+  if (!payload) {
+    return { maze: toEditorMaze(classic), error: null };
+  }
+  try {
+    return { maze: toEditorMaze(decodeMazePayload(payload)), error: null };
+  } catch (error) {
+    return {
+      maze: toEditorMaze(classic),
+      error: error instanceof Error ? error.message : "Could not read the shared maze.",
+    };
+  }
+}
+
+function drawTile(
+  ctx: CanvasRenderingContext2D,
+  tile: string,
+  col: number,
+  row: number,
+) {
+  const x = col * CELL_SIZE;
+  const y = row * CELL_SIZE;
+  const cx = x + CELL_SIZE / 2;
+  const cy = y + CELL_SIZE / 2;
+  const dot = (radius: number, color: string) => {
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+    ctx.fill();
+  };
+
+  switch (tile) {
+    case "#":
+      ctx.fillStyle = "#1b3cff";
+      ctx.fillRect(x, y, CELL_SIZE, CELL_SIZE);
+      break;
+    case ".":
+      dot(CELL_SIZE * 0.1, "#f6f6ce");
+      break;
+    case "o":
+      dot(CELL_SIZE * 0.25, "#fff2a6");
+      break;
+    case "P":
+      dot(CELL_SIZE * 0.4, "#ffe600");
+      break;
+    case "G":
+      ctx.fillStyle = "rgba(255, 184, 255, 0.35)";
+      ctx.fillRect(x, y, CELL_SIZE, CELL_SIZE);
+      dot(CELL_SIZE * 0.3, "#ffb8ff");
+      break;
+    case "=":
+      ctx.fillStyle = "#65f7ff";
+      ctx.fillRect(x, cy - 2, CELL_SIZE, 4);
+      break;
+    case "T":
+      ctx.fillStyle = "rgba(125, 255, 176, 0.3)";
+      ctx.fillRect(x, y, CELL_SIZE, CELL_SIZE);
+      break;
+    case " ":
+      break;
+    default:
+      // Anything else fails validation; it is marked so it can be found.
+      ctx.fillStyle = "#ff2d55";
+      ctx.fillRect(x + 4, y + 4, CELL_SIZE - 8, CELL_SIZE - 8);
+  }
+}
+
+interface MazeEditorProps {
+  initialPayload: string | null;
+}
+
+export default function MazeEditor({ initialPayload }: MazeEditorProps) {
+  const initial = useMemo(() => initialMaze(initialPayload), [initialPayload]);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const paintingRef = useRef(false);
+  const [maze, setMaze] = useState<EditorMaze>(initial.maze);
+  const [tool, setTool] = useState("#");
+  const [transferText, setTransferText] = useState("");
+  const [message, setMessage] = useState<string | null>(initial.error);
+
+  const definition = useMemo(() => toDefinition(maze), [maze]);
+  const issues = useMemo(() => validateMaze(definition), [definition]);
+  const payload = useMemo(() => encodeMazePayload(definition), [definition]);
+  const width = maze.grid[0]?.length ?? 0;
+  const height = maze.grid.length;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) {
+      return;
+    }
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * CELL_SIZE * ratio;
+    canvas.height = height * CELL_SIZE * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.fillStyle = "#000000";
+    ctx.fillRect(0, 0, width * CELL_SIZE, height * CELL_SIZE);
+
+    maze.grid.forEach((line, row) => {
+      line.forEach((tile, col) => drawTile(ctx, tile, col, row));
+    });
+
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.08)";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let col = 1; col < width; col += 1) {
+      ctx.moveTo(col * CELL_SIZE, 0);
+      ctx.lineTo(col * CELL_SIZE, height * CELL_SIZE);
+    }
+    for (let row = 1; row < height; row += 1) {
+      ctx.moveTo(0, row * CELL_SIZE);
+      ctx.lineTo(width * CELL_SIZE, row * CELL_SIZE);
+    }
+    ctx.stroke();
+  }, [maze, width, height]);
+
+  const paintAt = useCallback(
+    (clientX: number, clientY: number) => {
+      const canvas = canvasRef.current;
+      if (!canvas) {
+        return;
+      }
+      const rect = canvas.getBoundingClientRect();
+      const col = Math.floor(((clientX - rect.left) / rect.width) * width);
+      const row = Math.floor(((clientY - rect.top) / rect.height) * height);
+      if (col < 0 || col >= width || row < 0 || row >= height) {
+        return;
+      }
+      setMaze((current) => {
+        if (current.grid[row][col] === tool) {
+          return current;
+        }
+        // There is only one player spawn, so painting it moves it.
+        const grid = current.grid.map((line) =>
+          tool === "P"
+            ? line.map((tile) => (tile === "P" ? " " : tile))
+            : [...line],
+        );
+        grid[row][col] = tool;
+        return { ...current, grid };
+      });
+    },
+    [tool, width, height],
+  );
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    paintingRef.current = true;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    paintAt(event.clientX, event.clientY);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (paintingRef.current) {
+      paintAt(event.clientX, event.clientY);
+    }
+  };
+
+  const handlePointerUp = () => {
+    paintingRef.current = false;
+  };
+
+  const resize = (nextWidth: number, nextHeight: number) => {
+    const clamp = (value: number) =>
+      Math.min(MAX_SIZE, Math.max(MIN_SIZE, Math.round(value) || MIN_SIZE));
+    setMaze((current) => ({
+      ...current,
+      grid: resizeGrid(current.grid, clamp(nextWidth), clamp(nextHeight)),
+    }));
+  };
+
+  const clearMaze = () => {
+    setMaze((current) => ({
+      ...current,
+      grid: Array.from({ length: height }, (_, row) =>
+        Array.from({ length: width }, (_, col) =>
+          row === 0 || col === 0 || row === height - 1 || col === width - 1
+            ? "#"
+            : " ",
+        ),
+      ),
+    }));
+  };
+
+  const importMaze = () => {
+    try {
+      const imported = parseMazeImport(transferText);
+      const importedWidth = Math.max(...imported.layout.map((line) => line.length));
+      setMaze({
+        grid: resizeGrid(
+          imported.layout.map((line) => line.split("")),
+          importedWidth,
+          imported.layout.length,
+        ),
+        metadata: { ...imported.metadata },
+      });
+      setMessage("Maze imported.");
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Could not import the maze.");
+    }
+  };
+
+  const copyShareLink = async () => {
+    const url = `${window.location.origin}/editor?maze=${payload}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage("Share link copied to the clipboard.");
+    } catch {
+      setTransferText(url);
+      setMessage("Could not reach the clipboard; the link is in the text box.");
+    }
+  };
+
+  return (
+    <div className={styles.editor}>
+      <h1 className={styles.title}>Maze editor</h1>
+
+      <div className={styles.toolbar}>
+        {TOOLS.map((entry) => (
+          <button
+            key={entry.label}
+            type="button"
+            aria-pressed={tool === entry.tile}
+            className={tool === entry.tile ? styles.toolActive : undefined}
+            onClick={() => setTool(entry.tile)}
+          >
+            {entry.label}
+          </button>
+        ))}
+      </div>
+
+      <div className={styles.toolbar}>
+        <label>
+          Name&nbsp;
+          <input
+            type="text"
+            value={maze.metadata.name}
+            onChange={(event) =>
+              setMaze((current) => ({
+                ...current,
+                metadata: { ...current.metadata, name: event.target.value },
+              }))
+            }
+          />
+        </label>
+        <label>
+          Width&nbsp;
+          <input
+            type="number"
+            min={MIN_SIZE}
+            max={MAX_SIZE}
+            value={width}
+            onChange={(event) => resize(Number(event.target.value), height)}
+          />
+        </label>
+        <label>
+          Height&nbsp;
+          <input
+            type="number"
+            min={MIN_SIZE}
+            max={MAX_SIZE}
+            value={height}
+            onChange={(event) => resize(width, Number(event.target.value))}
+          />
+        </label>
+        <button type="button" onClick={clearMaze}>
+          Clear
+        </button>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        className={styles.grid}
+        style={{ aspectRatio: `${width} / ${height}`, width: width * CELL_SIZE }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+
+      {issues.length === 0 ? (
+        <p className={styles.valid}>Maze is valid.</p>
+      ) : (
+        <ul className={styles.issues}>
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className={styles.toolbar}>
+        {issues.length === 0 ? (
+          <Link className={styles.play} href={`/?maze=${payload}`}>
+            Play this maze
+          </Link>
+        ) : (
+          <span className={styles.playDisabled}>Play this maze</span>
+        )}
+        <button type="button" onClick={copyShareLink}>
+          Copy share link
+        </button>
+      </div>
+
+      <textarea
+        className={styles.transfer}
+        value={transferText}
+        spellCheck={false}
+        placeholder="Paste a maze as text (one line per row) or JSON, then press Import."
+        onChange={(event) => setTransferText(event.target.value)}
+      />
+      <div className={styles.toolbar}>
+        <button type="button" onClick={() => setTransferText(mazeToText(definition))}>
+          Export text
+        </button>
+        <button type="button" onClick={() => setTransferText(mazeToJson(definition))}>
+          Export JSON
+        </button>
+        <button type="button" onClick={importMaze}>
+          Import
+        </button>
+      </div>
+      {message ? <p className={styles.message}>{message}</p> : null}
+
+      <p className={styles.legend}>
+        Text mazes use <code>#</code> wall, <code>.</code> pellet,{" "}
+        <code>o</code> power pellet, <code>G</code> ghost pen,{" "}
+        <code>=</code> door, <code>T</code> tunnel, <code>P</code> player spawn
+        and a space for empty floor. Tunnels must be open on both side edges.
+        Imported text mazes are named &quot;{DEFAULT_CUSTOM_METADATA.name}&quot;.
+      </p>
+      <Link className={styles.back} href="/">
+        Back to the game
+      </Link>
+    </div>
+  );
+}
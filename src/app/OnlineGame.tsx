@@ -0,0 +1,287 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { mazeForLevel, type GameStatus } from "@/game/engine";
+import {
+  ACTION_DIRECTIONS,
+  actionForKey,
+  isDirectionAction,
+  loadInputBindings,
+} from "@/game/input";
+import { loadLevelPack } from "@/game/levels";
+import bundledLevelPack from "@/game/levels/bundled.json";
+import {
+  advanceNetClient,
+  createNetClient,
+  netRenderState,
+  queueNetInput,
+  receiveServerMessage,
+  type NetClient,
+} from "@/game/netClient";
+import {
+  DEFAULT_RELAY_PORT,
+  NetProtocolError,
+  parseServerMessage,
+  type ClientMessage,
+  type NetRole,
+} from "@/game/netProtocol";
+import { drawGame } from "./drawGame";
+import { createMazeLayerCache } from "./mazeLayers";
+import styles from "./PacmanGame.module.css";
+
+type Connection = "idle" | "connecting" | "open" | "closed";
+
+const ROLE_LABELS: Record<NetRole, string> = {
+  pacman: "You are Pac-Man",
+  ghost: "You are the ghost",
+  spectator: "Spectating",
+};
+
+// The relay usually runs on the machine serving the page.
+function defaultRelayUrl(): string {
+  return `ws://${window.location.hostname}:${DEFAULT_RELAY_PORT}`;
+}
+
+/**
+ * A versus match played through the LAN relay server (npm run relay). The
+ * server owns the game; this page predicts its own actor and draws the
+ * rest from the server's states.
+ */
+export default function OnlineGame() {
+  const mazes = useMemo(() => loadLevelPack(bundledLevelPack), []);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const layersRef = useRef(createMazeLayerCache());
+  const clientRef = useRef<NetClient>(createNetClient(mazes));
+  const socketRef = useRef<WebSocket | null>(null);
+
+  const [url, setUrl] = useState("");
+  const [connection, setConnection] = useState<Connection>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [role, setRole] = useState<NetRole | null>(null);
+  const [waitingPlayers, setWaitingPlayers] = useState<number | null>(null);
+  const [status, setStatus] = useState<GameStatus | null>(null);
+  const [score, setScore] = useState(0);
+  const [ghostScore, setGhostScore] = useState(0);
+  const [lives, setLives] = useState(0);
+  const [levelNumber, setLevelNumber] = useState(1);
+
+  // Primitive state only, so unchanged values between messages do not
+  // re-render.
+  const syncHud = useCallback((client: NetClient) => {
+    setRole(client.role);
+    setWaitingPlayers(client.waitingPlayers);
+    const state = client.server;
+    setStatus(state?.status ?? null);
+    if (state) {
+      setScore(state.score);
+      setGhostScore(state.ghostScore);
+      setLives(state.lives);
+      setLevelNumber(state.levelNumber);
+    }
+  }, []);
+
+  const send = useCallback((message: ClientMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }, []);
+
+  const connect = useCallback(() => {
+    socketRef.current?.close();
+    const client = createNetClient(mazes);
+    clientRef.current = client;
+    syncHud(client);
+    setError(null);
+    setConnection("connecting");
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url.trim() || defaultRelayUrl());
+    } catch {
+      setError("That is not a valid WebSocket address.");
+      setConnection("idle");
+      return;
+    }
+    socketRef.current = socket;
+    socket.onopen = () => setConnection("open");
+    socket.onerror = () => setError("Could not reach the relay server.");
+    socket.onclose = () => {
+      if (socketRef.current === socket) {
+        setConnection("closed");
+      }
+    };
+    socket.onmessage = (event) => {
+      try {
+        receiveServerMessage(
+          client,
+          parseServerMessage(String(event.data)),
+          performance.now(),
+        );
+      } catch (caught) {
+        // Either way the client is out of step with the server, so the
+        // connection is dropped rather than played on.
+        if (caught instanceof NetProtocolError) {
+          setError(caught.message);
+        } else {
+          console.error("Could not apply a relay message:", caught);
+          setError("The relay sent a message this page could not apply.");
+        }
+        socket.close();
+        return;
+      }
+      syncHud(client);
+    };
+  }, [mazes, syncHud, url]);
+
+  useEffect(() => {
+    return () => {
+      const socket = socketRef.current;
+      socketRef.current = null;
+      socket?.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) {
+      return;
+    }
+
+    let previous = performance.now();
+    let frame = 0;
+    const loop = (time: number) => {
+      const frameTime = (time - previous) / 1000;
+      previous = time;
+
+      const rect = canvas.getBoundingClientRect();
+      const ratio = window.devicePixelRatio || 1;
+      const width = Math.max(1, Math.round(rect.width * ratio));
+      const height = Math.max(1, Math.round(rect.height * ratio));
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      const client = clientRef.current;
+      advanceNetClient(client, frameTime);
+      const state = netRenderState(client, performance.now());
+      if (state) {
+        drawGame(ctx, state, layersRef.current);
+      } else {
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.fillStyle = "#000000";
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  useEffect(() => {
+    const bindings = loadInputBindings(window.localStorage);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement) {
+        return;
+      }
+      const action = actionForKey(bindings, event.key);
+      if (!action) {
+        return;
+      }
+      event.preventDefault();
+      const client = clientRef.current;
+      if (isDirectionAction(action)) {
+        const message = queueNetInput(client, ACTION_DIRECTIONS[action]);
+        if (message) {
+          send(message);
+        }
+      } else if (
+        action === "restart" &&
+        client.server?.status === "gameover"
+      ) {
+        send({ type: "restart" });
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [send]);
+
+  const level = mazeForLevel(mazes, levelNumber);
+  const overlayText =
+    connection !== "open"
+      ? connection === "connecting"
+        ? "Connecting…"
+        : "Not connected"
+      : waitingPlayers !== null
+      ? `Waiting for players ${waitingPlayers}/2`
+      : status === "gameover"
+      ? "Game Over"
+      : status === "cleared"
+      ? `Level ${levelNumber} Clear!`
+      : null;
+
+  return (
+    <div
+      className={styles.gameArea}
+      style={
+        {
+          "--board-aspect": level.width / level.height,
+          "--board-aspect-ratio": `${level.width} / ${level.height}`,
+        } as React.CSSProperties
+      }
+    >
+      <div className={styles.hud}>
+        <span>Pac-Man&nbsp;{score.toString().padStart(6, "0")}</span>
+        <span>Ghost&nbsp;{ghostScore.toString().padStart(6, "0")}</span>
+        <span>Level&nbsp;{levelNumber}</span>
+        <span className={styles.lives} aria-label={`${lives} lives remaining`}>
+          {Array.from({ length: lives }, (_, index) => (
+            <span key={index} className={styles.lifeIcon} />
+          ))}
+        </span>
+      </div>
+      <div className={styles.canvasWrapper}>
+        <canvas ref={canvasRef} className={styles.board} />
+        <div className={overlayText ? styles.overlay : styles.overlayHidden}>
+          {overlayText}
+          {status === "gameover" && role !== "spectator" ? (
+            <span className={styles.overlayHint}>Press Space to play again</span>
+          ) : null}
+        </div>
+      </div>
+      <form
+        className={styles.controls}
+        onSubmit={(event) => {
+          event.preventDefault();
+          connect();
+        }}
+      >
+        <label>
+          Relay&nbsp;
+          <input
+            value={url}
+            onChange={(event) => setUrl(event.target.value)}
+            placeholder={`ws://this-host:${DEFAULT_RELAY_PORT}`}
+            spellCheck={false}
+          />
+        </label>
+        <button type="submit">
+          {connection === "open" ? "Reconnect" : "Connect"}
+        </button>
+        {role && connection === "open" ? <span>{ROLE_LABELS[role]}</span> : null}
+        <Link href="/">Back to the local game</Link>
+        {error ? <p className={styles.warning}>{error}</p> : null}
+      </form>
+      <p className={styles.instructions}>
+        Start the relay with npm run relay on a machine on your network, then
+        open this page on two machines and connect. The first player steers
+        Pac-Man and the second the ghost, both with their usual movement keys;
+        anyone after that watches. Leave the address empty
+        to use port {DEFAULT_RELAY_PORT} on the machine serving this page.
+      </p>
+    </div>
+  );
+}
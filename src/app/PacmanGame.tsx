@@ -1,835 +1,482 @@
 "use client";
 
+import Link from "next/link";
 import {
   useCallback,
   useEffect,
   useMemo,
   useRef,
   useState,
+  useSyncExternalStore,
 } from "react";
+import {
+  advanceClock,
+  createClock,
+  createGameState,
+  GHOST_IDS,
+  mazeForLevel,
+  playerScores,
+  type Direction,
+  type GameCommand,
+  type GameState,
+  type GameStatus,
+  type GhostMovement,
+  type StepInput,
+} from "@/game/engine";
+import { createEventBus } from "@/game/events";
+import {
+  createLocalHighScoreStore,
+  insertHighScore,
+  qualifiesForHighScore,
+  type HighScoreEntry,
+  type HighScoreStore,
+} from "@/game/highScores";
+import {
+  ACTION_DIRECTIONS,
+  actionForKey,
+  createGamepadPoller,
+  DEFAULT_INPUT_BINDINGS,
+  isDirectionAction,
+  loadInputBindings,
+  normalizeKey,
+  pollGamepads,
+  saveInputBindings,
+  VERSUS_GHOST_KEYS,
+  type InputAction,
+  type InputBindings,
+} from "@/game/input";
+import { loadLevelPack, parseLevel, type LevelData } from "@/game/levels";
+import bundledLevelPack from "@/game/levels/bundled.json";
+import { decodeMazePayload } from "@/game/mazeShare";
+import { createSeed } from "@/game/random";
+import {
+  advancePlayback,
+  createPlayback,
+  createRecorder,
+  finishRecording,
+  isPlaybackFinished,
+  parseReplay,
+  recordInput,
+  serializeReplay,
+  stepPlayback,
+  verifyPlayback,
+  type ReplayPlayback,
+} from "@/game/replay";
+import {
+  ambienceForState,
+  createSoundEngine,
+  DEFAULT_SOUND_SETTINGS,
+  loadSoundSettings,
+  saveSoundSettings,
+  subscribeSound,
+  type SoundEngine,
+  type SoundSettings,
+} from "./audio";
+import DirectionPad from "./DirectionPad";
+import { drawGame } from "./drawGame";
+import FruitRow from "./FruitRow";
+import GhostDebugPanel from "./GhostDebugPanel";
+import { describeGhosts, type GhostDebugRow } from "./ghostDebug";
+import HighScoreTable from "./HighScoreTable";
+import InitialsEntry from "./InitialsEntry";
+import InputSettings from "./InputSettings";
+import { createMazeLayerCache, type MazeLayerCache } from "./mazeLayers";
 import styles from "./PacmanGame.module.css";
-
-type Direction = { x: number; y: number };
-type GameStatus = "playing" | "gameover" | "won";
-type GhostState = "pen" | "exiting" | "chase";
-
-interface TileCoord {
-  col: number;
-  row: number;
-}
-
-interface Player {
-  x: number;
-  y: number;
-  dir: Direction;
-  nextDir: Direction;
-  speed: number;
-}
-
-interface Ghost {
-  id: string;
-  color: string;
-  x: number;
-  y: number;
-  dir: Direction;
-  speed: number;
-  state: GhostState;
-  releaseAt: number;
-  path: TileCoord[];
-  scatterTarget: TileCoord;
-}
-
-interface LevelData {
-  width: number;
-  height: number;
-  baseTiles: string[][];
-  pelletTemplate: boolean[][];
-  powerTemplate: boolean[][];
-  pelletCount: number;
-  playerStart: TileCoord;
-  ghostStarts: TileCoord[];
-  exitTile: TileCoord;
-  scatterTargets: TileCoord[];
-}
-
-interface GameState {
-  layout: string[][];
-  pellets: boolean[][];
-  powerPellets: boolean[][];
-  pelletCount: number;
+import ReplayControls, { type ReplayViewState } from "./ReplayControls";
+import SoundControls from "./SoundControls";
+
+const DEFAULT_GHOST_MOVEMENT: GhostMovement = "smart";
+const DEFAULT_VERSUS_GHOST = "blinky";
+// Finger travel in CSS pixels before a drag on the board counts as a swipe.
+const SWIPE_DEADZONE = 24;
+// How often the debug overlay refreshes its frame-time averages.
+const FRAME_STATS_INTERVAL = 500;
+
+// A player whose final score made the table and still needs initials.
+interface PendingHighScore {
+  player: number;
   score: number;
-  status: GameStatus;
-  elapsed: number;
-  level: LevelData;
-  player: Player;
-  ghosts: Ghost[];
+  level: number;
 }
 
-const TILE_SIZE = 24;
-const DIR_VECTORS: Direction[] = [
-  { x: 1, y: 0 },
-  { x: -1, y: 0 },
-  { x: 0, y: 1 },
-  { x: 0, y: -1 },
-];
-
-const LEVEL_LAYOUT = [
-  "#####################",
-  "#.........###.......#",
-  "#.###.###.###.###.#.#",
-  "#o###.###.###.###.#o#",
-  "#...................#",
-  "#.###.#####.#####.###",
-  "#.###.#####.#####.###",
-  "#...................#",
-  "###.###.#######.###.#",
-  "#.....#.......#.....#",
-  "#.###.#.###.#.#.###.#",
-  "#.###.#.#GGG#.#.###.#",
-  "#.....#.#GGG#.#.....#",
-  "#.###.#.#===#.#.###.#",
-  "#.....#.......#.....#",
-  "###.###.#######.###.#",
-  "#...................#",
-  "#.###.###.###.###.###",
-  "#o..#.......P...#..o#",
-  "###.#.###.###.#.###.#",
-  "#.........###.......#",
-  "#####################",
-] as const;
-
-const SCATTER_TARGETS: TileCoord[] = [
-  { col: 1, row: 1 },
-  { col: LEVEL_LAYOUT[0].length - 2, row: 1 },
-  { col: LEVEL_LAYOUT[0].length - 2, row: LEVEL_LAYOUT.length - 2 },
-  { col: 1, row: LEVEL_LAYOUT.length - 2 },
-];
-
-const RELEASE_DELAYS = [0, 3, 6, 9];
-const GHOST_IDS = ["blinky", "pinky", "inky", "clyde"];
-const GHOST_COLORS = ["#ff0000", "#ffb8ff", "#00ffff", "#ffb847"];
-
-const EPSILON = 0.05;
-const ENTITY_RADIUS = 0.4;
-
-function cloneStringGrid(grid: string[][]): string[][] {
-  return grid.map((row) => [...row]);
+interface FrameStats {
+  frameMs: number;
+  drawMs: number;
+  fps: number;
 }
 
-function cloneBooleanGrid(grid: boolean[][]): boolean[][] {
-  return grid.map((row) => [...row]);
+function ghostName(id: string): string {
+  return id.charAt(0).toUpperCase() + id.slice(1);
 }
 
-function parseLevel(): LevelData {
-  const baseTiles = LEVEL_LAYOUT.map((row) => row.split(""));
-  const height = baseTiles.length;
-  const width = baseTiles[0].length;
-
-  const pelletTemplate = baseTiles.map((row) => row.map(() => false));
-  const powerTemplate = baseTiles.map((row) => row.map(() => false));
-  const ghostStarts: TileCoord[] = [];
-  const doors: TileCoord[] = [];
-  let pelletCount = 0;
-  let playerStart: TileCoord | null = null;
-
-  for (let row = 0; row < height; row += 1) {
-    for (let col = 0; col < width; col += 1) {
-      const char = baseTiles[row][col];
-      switch (char) {
-        case ".":
-          pelletTemplate[row][col] = true;
-          pelletCount += 1;
-          baseTiles[row][col] = " ";
-          break;
-        case "o":
-          pelletTemplate[row][col] = true;
-          powerTemplate[row][col] = true;
-          pelletCount += 1;
-          baseTiles[row][col] = " ";
-          break;
-        case "P":
-          playerStart = { col, row };
-          baseTiles[row][col] = " ";
-          break;
-        case "G":
-          ghostStarts.push({ col, row });
-          baseTiles[row][col] = " ";
-          break;
-        case "=":
-          doors.push({ col, row });
-          break;
-        case "#":
-          break;
-        default:
-          baseTiles[row][col] = " ";
-      }
-    }
-  }
-
-  if (!playerStart) {
-    playerStart = { col: Math.floor(width / 2), row: height - 3 };
-  }
-
-  if (ghostStarts.length === 0) {
-    ghostStarts.push({ col: playerStart.col, row: playerStart.row - 2 });
-  }
-
-  const door =
-    doors[Math.floor(doors.length / 2)] ?? ghostStarts[0] ?? playerStart;
-  const exitTile = {
-    col: door.col,
-    row: Math.min(height - 2, door.row + 1),
-  };
-
-  return {
-    width,
-    height,
-    baseTiles,
-    pelletTemplate,
-    powerTemplate,
-    pelletCount,
-    playerStart,
-    ghostStarts,
-    exitTile,
-    scatterTargets: SCATTER_TARGETS.map((target) => ({
-      col: Math.min(Math.max(target.col, 1), width - 2),
-      row: Math.min(Math.max(target.row, 1), height - 2),
-    })),
-  };
+// Debug overlays are enabled by adding ?debug to the URL.
+function readDebugFlag(): boolean {
+  return new URLSearchParams(window.location.search).has("debug");
 }
 
-function directionsEqual(a: Direction, b: Direction): boolean {
-  return a.x === b.x && a.y === b.y;
+function subscribeToNothing() {
+  return () => {};
 }
 
-function isAtCenter(coord: number): boolean {
-  return Math.abs(coord - Math.floor(coord) - 0.5) < EPSILON;
-}
-
-function isWalkable(
-  layout: string[][],
-  col: number,
-  row: number,
-  allowGate: boolean,
-): boolean {
-  if (
-    row < 0 ||
-    row >= layout.length ||
-    col < 0 ||
-    col >= layout[0].length
-  ) {
-    return false;
-  }
-  const tile = layout[row][col];
-  if (tile === "#") {
-    return false;
-  }
-  if (tile === "=") {
-    return allowGate;
-  }
-  return true;
-}
-
-function canMoveFrom(
-  layout: string[][],
-  col: number,
-  row: number,
-  dir: Direction,
-  allowGate: boolean,
-): boolean {
-  if (dir.x === 0 && dir.y === 0) {
-    return true;
-  }
-  return isWalkable(layout, col + dir.x, row + dir.y, allowGate);
-}
-
-function moveEntity(
-  entity: { x: number; y: number; dir: Direction; speed: number },
-  layout: string[][],
-  dt: number,
-  allowGate: boolean,
-) {
-  if (entity.dir.x === 0 && entity.dir.y === 0) {
-    return;
-  }
-
-  const step = entity.speed * dt;
-
-  if (entity.dir.x !== 0) {
-    const nextX = entity.x + entity.dir.x * step;
-    const targetCol =
-      entity.dir.x > 0
-        ? Math.floor(nextX + ENTITY_RADIUS)
-        : Math.floor(nextX - ENTITY_RADIUS);
-    const rowTop = Math.floor(entity.y - ENTITY_RADIUS);
-    const rowBottom = Math.floor(entity.y + ENTITY_RADIUS);
-
-    if (
-      isWalkable(layout, targetCol, rowTop, allowGate) &&
-      isWalkable(layout, targetCol, rowBottom, allowGate)
-    ) {
-      entity.x = nextX;
-    } else {
-      entity.x = Math.floor(entity.x) + 0.5;
-      entity.dir = { x: 0, y: 0 };
-    }
-  } else if (entity.dir.y !== 0) {
-    const nextY = entity.y + entity.dir.y * step;
-    const targetRow =
-      entity.dir.y > 0
-        ? Math.floor(nextY + ENTITY_RADIUS)
-        : Math.floor(nextY - ENTITY_RADIUS);
-    const colLeft = Math.floor(entity.x - ENTITY_RADIUS);
-    const colRight = Math.floor(entity.x + ENTITY_RADIUS);
-
-    if (
-      isWalkable(layout, colLeft, targetRow, allowGate) &&
-      isWalkable(layout, colRight, targetRow, allowGate)
-    ) {
-      entity.y = nextY;
-    } else {
-      entity.y = Math.floor(entity.y) + 0.5;
-      entity.dir = { x: 0, y: 0 };
+// A shared maze replaces the whole pack and repeats on every level. If it
+// cannot be read or fails validation, the bundled pack is used instead.
+function loadMazes(payload: string | null): {
+  mazes: LevelData[];
+  error: string | null;
+} {
+  if (payload) {
+    try {
+      const maze = decodeMazePayload(payload);
+      return { mazes: [parseLevel(maze.layout, maze.metadata)], error: null };
+    } catch (error) {
+      return {
+        mazes: loadLevelPack(bundledLevelPack),
+        error: `Could not load the shared maze. ${
+          error instanceof Error ? error.message : ""
+        }`,
+      };
     }
   }
+  return { mazes: loadLevelPack(bundledLevelPack), error: null };
 }
 
-function createGameState(level: LevelData): GameState {
-  const player: Player = {
-    x: level.playerStart.col + 0.5,
-    y: level.playerStart.row + 0.5,
-    dir: { x: 0, y: 0 },
-    nextDir: { x: 0, y: 0 },
-    speed: 6,
-  };
-
-  const spawnPool = [...level.ghostStarts];
-  while (spawnPool.length < GHOST_IDS.length) {
-    spawnPool.push(
-      level.ghostStarts[spawnPool.length % level.ghostStarts.length],
-    );
-  }
-
-  const ghosts: Ghost[] = GHOST_IDS.map((id, index) => {
-    const spawn = spawnPool[index] ?? level.playerStart;
-    return {
-      id,
-      color: GHOST_COLORS[index],
-      x: spawn.col + 0.5,
-      y: spawn.row + 0.5,
-      dir: { x: 0, y: 0 },
-      speed: 4.4,
-      state: "pen",
-      releaseAt: RELEASE_DELAYS[index],
-      path: [],
-      scatterTarget: level.scatterTargets[index],
-    };
-  });
-
-  return {
-    layout: cloneStringGrid(level.baseTiles),
-    pellets: cloneBooleanGrid(level.pelletTemplate),
-    powerPellets: cloneBooleanGrid(level.powerTemplate),
-    pelletCount: level.pelletCount,
-    score: 0,
-    status: "playing",
-    elapsed: 0,
-    level,
-    player,
-    ghosts,
-  };
-}
-
-function keyToDirection(key: string): Direction | null {
-  switch (key) {
-    case "ArrowLeft":
-    case "a":
-    case "A":
-      return { x: -1, y: 0 };
-    case "ArrowRight":
-    case "d":
-    case "D":
-      return { x: 1, y: 0 };
-    case "ArrowUp":
-    case "w":
-    case "W":
-      return { x: 0, y: -1 };
-    case "ArrowDown":
-    case "s":
-    case "S":
-      return { x: 0, y: 1 };
-    default:
-      return null;
-  }
-}
-
-function findPath(
-  state: GameState,
-  start: TileCoord,
-  target: TileCoord,
-  allowGate: boolean,
-): TileCoord[] | null {
-  const queue: TileCoord[] = [start];
-  const parent = new Map<string, string | null>();
-  const key = (pos: TileCoord) => `${pos.col},${pos.row}`;
-  parent.set(key(start), null);
-
-  while (queue.length > 0) {
-    const current = queue.shift()!;
-    if (current.col === target.col && current.row === target.row) {
-      break;
-    }
-
-    for (const dir of DIR_VECTORS) {
-      const next = { col: current.col + dir.x, row: current.row + dir.y };
-      const encoded = key(next);
-      if (parent.has(encoded)) {
-        continue;
-      }
-      if (!isWalkable(state.layout, next.col, next.row, allowGate)) {
-        continue;
-      }
-      parent.set(encoded, key(current));
-      queue.push(next);
-    }
-  }
-
-  const targetKey = key(target);
-  if (!parent.has(targetKey)) {
+// Picks the dominant axis of a drag once it leaves the deadzone.
+function swipeToDirection(dx: number, dy: number): Direction | null {
+  if (Math.hypot(dx, dy) < SWIPE_DEADZONE) {
     return null;
   }
-
-  const path: TileCoord[] = [];
-  let currentKey: string | null = targetKey;
-
-  while (currentKey) {
-    const [col, row] = currentKey.split(",").map((value) => Number(value));
-    path.push({ col, row });
-    currentKey = parent.get(currentKey) ?? null;
+  if (Math.abs(dx) > Math.abs(dy)) {
+    return { x: Math.sign(dx), y: 0 };
   }
+  return { x: 0, y: Math.sign(dy) };
+}
 
-  path.reverse();
-  return path;
+interface PacmanGameProps {
+  mazePayload: string | null;
 }
 
-function clampTargetToWalkable(state: GameState, target: TileCoord): TileCoord {
-  const startCol = Math.min(
-    Math.max(target.col, 0),
-    state.level.width - 1,
+export default function PacmanGame({ mazePayload }: PacmanGameProps) {
+  const { mazes, error: mazeError } = useMemo(
+    () => loadMazes(mazePayload),
+    [mazePayload],
   );
-  const startRow = Math.min(
-    Math.max(target.row, 0),
-    state.level.height - 1,
+  const initialState = useMemo(
+    () => createGameState(mazes, 1, createSeed(), DEFAULT_GHOST_MOVEMENT),
+    [mazes],
+  );
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const layersRef = useRef<MazeLayerCache>(createMazeLayerCache());
+  const stateRef = useRef<GameState>(initialState);
+  const requestRef = useRef<number | null>(null);
+  const clockRef = useRef(createClock());
+  const busRef = useRef(createEventBus());
+  const pendingDirectionRef = useRef<Direction | null>(null);
+  const pendingCommandRef = useRef<GameCommand | null>(null);
+  const recorderRef = useRef(createRecorder(initialState));
+  const playbackRef = useRef<ReplayPlayback | null>(null);
+  const replayViewRef = useRef<ReplayViewState | null>(null);
+  const highScoreStoreRef = useRef<HighScoreStore | null>(null);
+  const highScoresRef = useRef<HighScoreEntry[]>([]);
+  const initialsQueueRef = useRef<PendingHighScore[]>([]);
+  const readyCountRef = useRef(0);
+  const swipeOriginRef = useRef<{ x: number; y: number } | null>(null);
+  const bindingsRef = useRef<InputBindings>(DEFAULT_INPUT_BINDINGS);
+  const soundRef = useRef<SoundEngine | null>(null);
+  const ghostDebugRef = useRef(false);
+  const ghostMovementRef = useRef<GhostMovement>(DEFAULT_GHOST_MOVEMENT);
+  // Null until a game is started from the start screen.
+  const playerCountRef = useRef<number | null>(null);
+  // The ghost the versus player steers in new games, or null outside versus.
+  const versusGhostRef = useRef<string | null>(null);
+  const versusChoiceRef = useRef(DEFAULT_VERSUS_GHOST);
+  const pendingGhostDirectionRef = useRef<Direction | null>(null);
+
+  const [scores, setScores] = useState(() => playerScores(initialState));
+  const [activePlayer, setActivePlayer] = useState(initialState.activePlayer);
+  const [status, setStatus] = useState<GameStatus>(initialState.status);
+  const [lives, setLives] = useState(initialState.lives);
+  const [levelNumber, setLevelNumber] = useState(initialState.levelNumber);
+  const [readyCount, setReadyCount] = useState(0);
+  const [replayView, setReplayView] = useState<ReplayViewState | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [highScores, setHighScores] = useState<HighScoreEntry[]>([]);
+  const [initialsQueue, setInitialsQueue] = useState<PendingHighScore[]>([]);
+  const [latestEntry, setLatestEntry] = useState<HighScoreEntry | null>(null);
+  const [bindings, setBindings] = useState<InputBindings>(
+    DEFAULT_INPUT_BINDINGS,
+  );
+  const [soundSettings, setSoundSettings] = useState<SoundSettings>(
+    DEFAULT_SOUND_SETTINGS,
+  );
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
+  const [ghostDebug, setGhostDebug] = useState(false);
+  const [ghostMovement, setGhostMovement] = useState<GhostMovement>(
+    DEFAULT_GHOST_MOVEMENT,
+  );
+  const [ghostRows, setGhostRows] = useState<GhostDebugRow[]>([]);
+  const [playerCount, setPlayerCount] = useState<number | null>(null);
+  const [versusChoice, setVersusChoice] = useState(DEFAULT_VERSUS_GHOST);
+  const [versusGhost, setVersusGhost] = useState<string | null>(null);
+  const [ghostScore, setGhostScore] = useState(0);
+  const debug = useSyncExternalStore(
+    subscribeToNothing,
+    readDebugFlag,
+    () => false,
   );
 
-  if (isWalkable(state.layout, startCol, startRow, false)) {
-    return { col: startCol, row: startRow };
-  }
-
-  const start = { col: startCol, row: startRow };
-  const visited = new Set<string>();
-  const queue: TileCoord[] = [start];
-  const encode = (pos: TileCoord) => `${pos.col},${pos.row}`;
-  visited.add(encode(start));
-
-  while (queue.length > 0) {
-    const current = queue.shift()!;
-    if (isWalkable(state.layout, current.col, current.row, false)) {
-      return current;
-    }
-    for (const dir of DIR_VECTORS) {
-      const next = {
-        col: current.col + dir.x,
-        row: current.row + dir.y,
-      };
-      if (
-        next.col < 0 ||
-        next.col >= state.level.width ||
-        next.row < 0 ||
-        next.row >= state.level.height
-      ) {
-        continue;
-      }
-      const encoded = encode(next);
-      if (visited.has(encoded)) {
-        continue;
-      }
-      visited.add(encoded);
-      queue.push(next);
-    }
-  }
-
-  return {
-    col: Math.floor(state.player.x),
-    row: Math.floor(state.player.y),
-  };
-}
-
-function determineGhostTarget(state: GameState, ghost: Ghost): TileCoord {
-  const player = state.player;
-  const playerTile = {
-    col: Math.floor(player.x),
-    row: Math.floor(player.y),
-  };
+  const updateInitialsQueue = useCallback((queue: PendingHighScore[]) => {
+    initialsQueueRef.current = queue;
+    setInitialsQueue(queue);
+  }, []);
 
-  switch (ghost.id) {
-    case "pinky": {
-      return {
-        col: playerTile.col + player.dir.x * 4,
-        row: playerTile.row + player.dir.y * 4,
-      };
-    }
-    case "inky": {
-      const ahead = {
-        col: playerTile.col + player.dir.x * 2,
-        row: playerTile.row + player.dir.y * 2,
-      };
-      const blinky = state.ghosts.find((g) => g.id === "blinky");
-      if (!blinky) {
-        return ahead;
-      }
-      const blinkyTile = {
-        col: Math.floor(blinky.x),
-        row: Math.floor(blinky.y),
-      };
-      return {
-        col: blinkyTile.col + (ahead.col - blinkyTile.col) * 2,
-        row: blinkyTile.row + (ahead.row - blinkyTile.row) * 2,
-      };
-    }
-    case "clyde": {
-      const distance = Math.hypot(ghost.x - player.x, ghost.y - player.y);
-      if (distance > 6) {
-        return playerTile;
+  useEffect(() => {
+    const store = createLocalHighScoreStore(window.localStorage);
+    highScoreStoreRef.current = store;
+    let cancelled = false;
+    store.load().then((entries) => {
+      if (!cancelled) {
+        highScoresRef.current = entries;
+        setHighScores(entries);
       }
-      return ghost.scatterTarget;
-    }
-    default:
-      return playerTile;
-  }
-}
-
-function randomAvailableDirection(
-  state: GameState,
-  tile: TileCoord,
-  currentDir: Direction,
-): Direction {
-  const options = DIR_VECTORS.filter((dir) => {
-    if (dir.x === -currentDir.x && dir.y === -currentDir.y) {
-      return false;
-    }
-    return isWalkable(
-      state.layout,
-      tile.col + dir.x,
-      tile.row + dir.y,
-      false,
-    );
-  });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-  if (options.length === 0) {
-    return { x: -currentDir.x, y: -currentDir.y };
-  }
-  return options[Math.floor(Math.random() * options.length)];
-}
+  useEffect(() => {
+    const stored = loadInputBindings(window.localStorage);
+    bindingsRef.current = stored;
+    // Bindings live in localStorage, which the server render cannot read.
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    setBindings(stored);
+  }, []);
 
-function updatePlayer(state: GameState, dt: number) {
-  const player = state.player;
-  const tileCol = Math.floor(player.x);
-  const tileRow = Math.floor(player.y);
+  useEffect(() => {
+    const stored = loadSoundSettings(window.localStorage);
+    const sound = createSoundEngine(stored);
+    soundRef.current = sound;
+    const unsubscribe = subscribeSound(busRef.current, sound);
+    // Like the bindings, the settings are only readable on the client.
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    setSoundSettings(stored);
+
+    // Audio can only start from a user gesture. The listeners stay attached
+    // because some browsers suspend the context again in background tabs.
+    const unlock = () => sound.unlock();
+    window.addEventListener("keydown", unlock, true);
+    window.addEventListener("pointerdown", unlock, true);
+    return () => {
+      window.removeEventListener("keydown", unlock, true);
+      window.removeEventListener("pointerdown", unlock, true);
+      unsubscribe();
+      sound.close();
+      soundRef.current = null;
+    };
+  }, []);
 
-  if (isAtCenter(player.x) && isAtCenter(player.y)) {
-    player.x = tileCol + 0.5;
-    player.y = tileRow + 0.5;
+  const updateSoundSettings = useCallback((next: SoundSettings) => {
+    setSoundSettings(next);
+    soundRef.current?.applySettings(next);
+    saveSoundSettings(window.localStorage, next);
+  }, []);
 
-    if (
-      (player.nextDir.x !== 0 || player.nextDir.y !== 0) &&
-      !directionsEqual(player.nextDir, player.dir) &&
-      canMoveFrom(state.layout, tileCol, tileRow, player.nextDir, false)
-    ) {
-      player.dir = { ...player.nextDir };
-    }
+  const toggleGhostDebug = useCallback(() => {
+    ghostDebugRef.current = !ghostDebugRef.current;
+    setGhostDebug(ghostDebugRef.current);
+    setGhostRows(describeGhosts(stateRef.current));
+  }, []);
 
-    if (!canMoveFrom(state.layout, tileCol, tileRow, player.dir, false)) {
-      player.dir = { x: 0, y: 0 };
-    }
-  }
+  const updateBindings = useCallback((next: InputBindings) => {
+    bindingsRef.current = next;
+    setBindings(next);
+    saveInputBindings(window.localStorage, next);
+  }, []);
 
-  moveEntity(player, state.layout, dt, false);
-
-  if (isAtCenter(player.x) && isAtCenter(player.y)) {
-    const col = Math.floor(player.x);
-    const row = Math.floor(player.y);
-    if (state.pellets[row]?.[col]) {
-      state.pellets[row][col] = false;
-      if (state.powerPellets[row]?.[col]) {
-        state.powerPellets[row][col] = false;
-        state.score += 50;
-      } else {
-        state.score += 10;
+  const submitInitials = useCallback(
+    (initials: string) => {
+      const [pending, ...rest] = initialsQueueRef.current;
+      if (!pending) {
+        return;
       }
-      state.pelletCount = Math.max(0, state.pelletCount - 1);
-    }
-  }
-}
+      const entry: HighScoreEntry = {
+        score: pending.score,
+        initials,
+        level: pending.level,
+        date: new Date().toISOString(),
+      };
+      const entries = insertHighScore(highScoresRef.current, entry);
+      highScoresRef.current = entries;
+      setHighScores(entries);
+      setLatestEntry(entry);
+      // The new entry may have pushed the other player's score off the table.
+      updateInitialsQueue(
+        rest.filter((next) => qualifiesForHighScore(entries, next.score)),
+      );
+      void highScoreStoreRef.current?.save(entries);
+    },
+    [updateInitialsQueue],
+  );
 
-function updateGhost(state: GameState, ghost: Ghost, dt: number) {
-  const tileCol = Math.floor(ghost.x);
-  const tileRow = Math.floor(ghost.y);
-  const atCenter = isAtCenter(ghost.x) && isAtCenter(ghost.y);
+  const updateReplayView = useCallback((view: ReplayViewState | null) => {
+    replayViewRef.current = view;
+    setReplayView(view);
+  }, []);
 
-  if (atCenter) {
-    ghost.x = tileCol + 0.5;
-    ghost.y = tileRow + 0.5;
-  }
+  const syncHud = useCallback((state: GameState) => {
+    setScores(playerScores(state));
+    setActivePlayer(state.activePlayer);
+    setLives(state.lives);
+    setLevelNumber(state.levelNumber);
+    setVersusGhost(state.versusGhost);
+    setGhostScore(state.ghostScore);
+  }, []);
 
-  if (ghost.state === "pen" && state.elapsed >= ghost.releaseAt) {
-    ghost.state = "exiting";
-    const path =
-      findPath(state, { col: tileCol, row: tileRow }, state.level.exitTile, true) ??
-      [];
-    ghost.path = path;
-  }
+  const showState = useCallback((nextState: GameState) => {
+    stateRef.current = nextState;
+    clockRef.current = createClock();
+    pendingDirectionRef.current = null;
+    pendingGhostDirectionRef.current = null;
+    pendingCommandRef.current = null;
+    setStatus(nextState.status);
+    syncHud(nextState);
 
-  if (ghost.state === "exiting" && atCenter) {
-    if (tileCol === state.level.exitTile.col && tileRow === state.level.exitTile.row) {
-      ghost.state = "chase";
-      ghost.path = [];
-    } else {
-      if (ghost.path.length <= 1) {
-        const path =
-          findPath(
-            state,
-            { col: tileCol, row: tileRow },
-            state.level.exitTile,
-            true,
-          ) ?? [];
-        ghost.path = path;
-      }
-      if (ghost.path.length > 1) {
-        const nextStep = ghost.path[1];
-        ghost.path.shift();
-        ghost.dir = {
-          x: nextStep.col - tileCol,
-          y: nextStep.row - tileRow,
-        };
-      }
-    }
-  } else if (ghost.state === "chase" && atCenter) {
-    const target = clampTargetToWalkable(
-      state,
-      determineGhostTarget(state, ghost),
-    );
-    const path =
-      findPath(state, { col: tileCol, row: tileRow }, target, false) ?? [];
-    if (path.length > 1) {
-      const nextStep = path[1];
-      ghost.dir = {
-        x: nextStep.col - tileCol,
-        y: nextStep.row - tileRow,
-      };
-    } else {
-      ghost.dir = randomAvailableDirection(
-        state,
-        { col: tileCol, row: tileRow },
-        ghost.dir,
-      );
+    const ctx = canvasRef.current?.getContext("2d");
+    if (ctx) {
+      drawGame(ctx, nextState, layersRef.current);
     }
-  }
-
-  moveEntity(ghost, state.layout, dt, ghost.state !== "chase");
-}
+  }, [syncHud]);
 
-function handleCollisions(state: GameState) {
-  if (state.status !== "playing") {
-    return;
-  }
-
-  for (const ghost of state.ghosts) {
-    const distance = Math.hypot(
-      ghost.x - state.player.x,
-      ghost.y - state.player.y,
+  const resetGame = useCallback(() => {
+    const nextState = createGameState(
+      mazes,
+      1,
+      createSeed(),
+      ghostMovementRef.current,
+      playerCountRef.current ?? 1,
+      versusGhostRef.current,
     );
-    if (distance < 0.45) {
-      state.status = "gameover";
-      state.player.dir = { x: 0, y: 0 };
-      return;
-    }
-  }
+    playbackRef.current = null;
+    recorderRef.current = createRecorder(nextState);
+    updateReplayView(null);
+    setReplayError(null);
+    updateInitialsQueue([]);
+    setLatestEntry(null);
+    showState(nextState);
+    soundRef.current?.play("intro");
+  }, [mazes, showState, updateInitialsQueue, updateReplayView]);
+
+  const startGame = useCallback(
+    (count: number, versus = false) => {
+      playerCountRef.current = count;
+      versusGhostRef.current = versus ? versusChoiceRef.current : null;
+      setPlayerCount(count);
+      resetGame();
+    },
+    [resetGame],
+  );
 
-  if (state.pelletCount <= 0) {
-    state.status = "won";
-    state.player.dir = { x: 0, y: 0 };
-  }
-}
+  // Picking another ghost mid-game restarts the versus game with it.
+  const changeVersusChoice = useCallback(
+    (ghostId: string) => {
+      versusChoiceRef.current = ghostId;
+      setVersusChoice(ghostId);
+      if (versusGhostRef.current !== null) {
+        versusGhostRef.current = ghostId;
+        resetGame();
+      }
+    },
+    [resetGame],
+  );
 
-function updateGame(state: GameState, dt: number) {
-  if (state.status !== "playing") {
-    return;
-  }
+  // The movement model is part of the simulation, so switching it starts a
+  // new game rather than changing the rules mid-run.
+  const changeGhostMovement = useCallback(
+    (movement: GhostMovement) => {
+      ghostMovementRef.current = movement;
+      setGhostMovement(movement);
+      resetGame();
+    },
+    [resetGame],
+  );
 
-  state.elapsed += dt;
-  updatePlayer(state, dt);
-  for (const ghost of state.ghosts) {
-    updateGhost(state, ghost, dt);
-  }
-  handleCollisions(state);
-}
+  const saveReplay = useCallback(() => {
+    const replay = finishRecording(recorderRef.current, stateRef.current);
+    const blob = new Blob([serializeReplay(replay)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `pacman-replay-${replay.seed >>> 0}-${replay.finalScore}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
 
-function drawGame(ctx: CanvasRenderingContext2D, state: GameState) {
-  const width = state.level.width * TILE_SIZE;
-  const height = state.level.height * TILE_SIZE;
-  ctx.clearRect(0, 0, width, height);
-
-  ctx.fillStyle = "#000000";
-  ctx.fillRect(0, 0, width, height);
-
-  for (let row = 0; row < state.level.height; row += 1) {
-    for (let col = 0; col < state.level.width; col += 1) {
-      const tile = state.layout[row][col];
-      const x = col * TILE_SIZE;
-      const y = row * TILE_SIZE;
-      if (tile === "#") {
-        ctx.fillStyle = "#001b96";
-        ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
-        ctx.strokeStyle = "#1b4bff";
-        ctx.lineWidth = 2;
-        ctx.strokeRect(x + 0.5, y + 0.5, TILE_SIZE - 1, TILE_SIZE - 1);
-      } else if (tile === "=") {
-        ctx.fillStyle = "#65f7ff";
-        ctx.fillRect(
-          x,
-          y + TILE_SIZE / 2 - 2,
-          TILE_SIZE,
-          4,
+  const loadReplay = useCallback(
+    async (file: File) => {
+      try {
+        const replay = parseReplay(await file.text());
+        const playback = createPlayback(replay, mazes);
+        playbackRef.current = playback;
+        setReplayError(null);
+        updateReplayView({
+          paused: false,
+          speed: 1,
+          verdict: null,
+          recordedScore: replay.finalScore,
+          finalScore: playback.state.score,
+        });
+        showState(playback.state);
+      } catch (error) {
+        setReplayError(
+          error instanceof Error ? error.message : "Could not load replay.",
         );
       }
+    },
+    [mazes, showState, updateReplayView],
+  );
 
-      if (state.pellets[row]?.[col]) {
-        ctx.fillStyle = state.powerPellets[row]?.[col]
-          ? "#fff2a6"
-          : "#f6f6ce";
-        const radius = state.powerPellets[row]?.[col]
-          ? TILE_SIZE * 0.23
-          : TILE_SIZE * 0.1;
-        ctx.beginPath();
-        ctx.arc(
-          x + TILE_SIZE / 2,
-          y + TILE_SIZE / 2,
-          radius,
-          0,
-          Math.PI * 2,
-        );
-        ctx.fill();
+  const finishReplayIfDone = useCallback(
+    (playback: ReplayPlayback) => {
+      const view = replayViewRef.current;
+      if (!view || view.verdict || !isPlaybackFinished(playback)) {
+        return;
       }
-    }
-  }
-
-  const player = state.player;
-  const playerX = player.x * TILE_SIZE;
-  const playerY = player.y * TILE_SIZE;
-  const playerRadius = TILE_SIZE * 0.45;
-  const angle =
-    player.dir.x === 0 && player.dir.y === 0
-      ? 0
-      : Math.atan2(player.dir.y, player.dir.x);
-  const mouth =
-    Math.PI / 8 + (state.status === "playing" ? (Math.sin(state.elapsed * 8) + 1) * (Math.PI / 32) : 0);
-
-  ctx.fillStyle = "#ffe600";
-  ctx.beginPath();
-  ctx.moveTo(playerX, playerY);
-  ctx.arc(
-    playerX,
-    playerY,
-    playerRadius,
-    angle + mouth,
-    angle - mouth,
-    true,
-  );
-  ctx.closePath();
-  ctx.fill();
-
-  ctx.fillStyle = "#03224c";
-  ctx.beginPath();
-  ctx.arc(
-    playerX + Math.cos(angle) * playerRadius * 0.25 - Math.sin(angle) * playerRadius * 0.15,
-    playerY + Math.sin(angle) * playerRadius * 0.25 - Math.cos(angle) * playerRadius * 0.15,
-    playerRadius * 0.1,
-    0,
-    Math.PI * 2,
+      updateReplayView({
+        ...view,
+        paused: true,
+        verdict: verifyPlayback(playback),
+        finalScore: playback.state.score,
+      });
+    },
+    [updateReplayView],
   );
-  ctx.fill();
-
-  for (const ghost of state.ghosts) {
-    const gx = ghost.x * TILE_SIZE;
-    const gy = ghost.y * TILE_SIZE;
-    const radius = TILE_SIZE * 0.45;
-
-    ctx.fillStyle = ghost.color;
-    ctx.beginPath();
-    ctx.arc(gx, gy - radius * 0.2, radius, Math.PI, 0, false);
-    ctx.lineTo(gx + radius, gy + radius * 0.6);
-
-    const scallops = 6;
-    for (let i = scallops; i >= 0; i -= 1) {
-      const waveX = gx + (radius * 2 * i) / scallops - radius;
-      const waveY =
-        gy + radius * 0.6 + (i % 2 === 0 ? radius * 0.2 : 0);
-      ctx.lineTo(waveX, waveY);
-    }
-    ctx.closePath();
-    ctx.fill();
 
-    const eyePositions = [
-      { x: gx - radius * 0.32, y: gy - radius * 0.1 },
-      { x: gx + radius * 0.1, y: gy - radius * 0.1 },
-    ];
-
-    for (const eye of eyePositions) {
-      ctx.fillStyle = "#ffffff";
-      ctx.beginPath();
-      ctx.arc(eye.x, eye.y, radius * 0.24, 0, Math.PI * 2);
-      ctx.fill();
-
-      ctx.fillStyle = "#1d206b";
-      ctx.beginPath();
-      ctx.arc(
-        eye.x + ghost.dir.x * radius * 0.18,
-        eye.y + ghost.dir.y * radius * 0.18,
-        radius * 0.12,
-        0,
-        Math.PI * 2,
-      );
-      ctx.fill();
+  const toggleReplayPause = useCallback(() => {
+    const view = replayViewRef.current;
+    if (view) {
+      updateReplayView({ ...view, paused: !view.paused });
     }
-  }
-}
-
-export default function PacmanGame() {
-  const level = useMemo(() => parseLevel(), []);
-  const initialState = useMemo(() => createGameState(level), [level]);
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const stateRef = useRef<GameState>(initialState);
-  const requestRef = useRef<number | null>(null);
-  const scoreRef = useRef(initialState.score);
-  const statusRef = useRef<GameStatus>(initialState.status);
-
-  const [score, setScore] = useState(initialState.score);
-  const [status, setStatus] = useState<GameStatus>(initialState.status);
-
-  const resetGame = useCallback(() => {
-    const nextState = createGameState(level);
-    stateRef.current = nextState;
-    scoreRef.current = nextState.score;
-    statusRef.current = nextState.status;
-    setScore(nextState.score);
-    setStatus(nextState.status);
+  }, [updateReplayView]);
 
-    const ctx = canvasRef.current?.getContext("2d");
-    if (ctx) {
-      drawGame(ctx, nextState);
+  const stepReplay = useCallback(() => {
+    const playback = playbackRef.current;
+    if (playback) {
+      stepPlayback(playback, busRef.current.emit);
+      finishReplayIfDone(playback);
     }
-  }, [level]);
+  }, [finishReplayIfDone]);
+
+  const changeReplaySpeed = useCallback(
+    (speed: number) => {
+      const view = replayViewRef.current;
+      if (view) {
+        updateReplayView({ ...view, speed });
+      }
+    },
+    [updateReplayView],
+  );
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -838,24 +485,107 @@ export default function PacmanGame() {
       return;
     }
 
+    // The backing store follows the canvas's displayed size times the device
+    // pixel ratio, so the board stays sharp at any scale and on HiDPI
+    // screens.
+    const fitCanvas = () => {
+      const rect = canvas.getBoundingClientRect();
+      const ratio = window.devicePixelRatio || 1;
+      const width = Math.max(1, Math.round(rect.width * ratio));
+      const height = Math.max(1, Math.round(rect.height * ratio));
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+        drawGame(ctx, stateRef.current, layersRef.current);
+      }
+    };
+    fitCanvas();
+    const resizeObserver = new ResizeObserver(fitCanvas);
+    resizeObserver.observe(canvas);
+    // Zooming or moving to another screen changes the pixel ratio without
+    // necessarily resizing the element.
+    window.addEventListener("resize", fitCanvas);
+
+    const bus = busRef.current;
     let previous = performance.now();
+    const stats = { since: previous, frames: 0, frameTime: 0, drawTime: 0 };
 
     const loop = (time: number) => {
-      const dt = Math.min((time - previous) / 1000, 0.1);
+      const frameTime = (time - previous) / 1000;
       previous = time;
 
       const state = stateRef.current;
-      updateGame(state, dt);
-      drawGame(ctx, state);
+      const playback = playbackRef.current;
+      const replayView = replayViewRef.current;
+      if (playback && replayView) {
+        if (!replayView.paused) {
+          advancePlayback(playback, frameTime, replayView.speed, bus.emit);
+        }
+        finishReplayIfDone(playback);
+      } else if (playerCountRef.current !== null) {
+        const input: StepInput = {
+          direction: pendingDirectionRef.current,
+          ghostDirection: pendingGhostDirectionRef.current,
+          command: pendingCommandRef.current ?? undefined,
+        };
+        // The clock stays frozen while paused until a resume is queued, so
+        // time spent paused never reaches the simulation.
+        if (state.status !== "paused" || input.command === "resume") {
+          const tick = state.tick;
+          const ticks = advanceClock(
+            clockRef.current,
+            state,
+            frameTime,
+            input,
+            bus.emit,
+          );
+          if (
+            ticks > 0 &&
+            (input.direction || input.ghostDirection || input.command)
+          ) {
+            recordInput(recorderRef.current, tick, input);
+            pendingDirectionRef.current = null;
+            pendingGhostDirectionRef.current = null;
+            pendingCommandRef.current = null;
+          }
+        }
+      }
+      soundRef.current?.setAmbience(
+        playbackRef.current || playerCountRef.current === null
+          ? null
+          : ambienceForState(state),
+      );
 
-      if (state.score !== scoreRef.current) {
-        scoreRef.current = state.score;
-        setScore(state.score);
+      const drawStart = performance.now();
+      drawGame(ctx, state, layersRef.current, ghostDebugRef.current);
+
+      if (debug) {
+        stats.frames += 1;
+        stats.frameTime += frameTime * 1000;
+        stats.drawTime += performance.now() - drawStart;
+        if (time - stats.since >= FRAME_STATS_INTERVAL) {
+          setFrameStats({
+            frameMs: stats.frameTime / stats.frames,
+            drawMs: stats.drawTime / stats.frames,
+            fps: (stats.frames * 1000) / (time - stats.since),
+          });
+          if (ghostDebugRef.current) {
+            setGhostRows(describeGhosts(state));
+          }
+          Object.assign(stats, {
+            since: time,
+            frames: 0,
+            frameTime: 0,
+            drawTime: 0,
+          });
+        }
       }
 
-      if (state.status !== statusRef.current) {
-        statusRef.current = state.status;
-        setStatus(state.status);
+      const count =
+        state.status === "ready" ? Math.ceil(state.readyTimer) : 0;
+      if (count !== readyCountRef.current) {
+        readyCountRef.current = count;
+        setReadyCount(count);
       }
 
       requestRef.current = requestAnimationFrame(loop);
@@ -864,30 +594,244 @@ export default function PacmanGame() {
     requestRef.current = requestAnimationFrame(loop);
 
     return () => {
+      resizeObserver.disconnect();
+      window.removeEventListener("resize", fitCanvas);
       if (requestRef.current !== null) {
         cancelAnimationFrame(requestRef.current);
         requestRef.current = null;
       }
     };
+  }, [debug, finishReplayIfDone]);
+
+  // The HUD follows the engine's events rather than comparing the state
+  // every frame. showState() covers jumps to a whole new state.
+  useEffect(() => {
+    const bus = busRef.current;
+    const unsubscribers = [
+      bus.on("scoreChanged", () => setScores(playerScores(stateRef.current))),
+      bus.on("livesChanged", (event) => setLives(event.lives)),
+      bus.on("levelStarted", (event) => setLevelNumber(event.levelNumber)),
+      bus.on("playerChanged", () => syncHud(stateRef.current)),
+      bus.on("ghostPlayerScored", (event) => setGhostScore(event.score)),
+      bus.on("statusChanged", (event) => {
+        setStatus(event.status);
+        if (event.status !== "gameover" || playbackRef.current) {
+          return;
+        }
+        const state = stateRef.current;
+        const finished: PendingHighScore[] = [
+          {
+            player: state.activePlayer,
+            score: state.score,
+            level: state.levelNumber,
+          },
+        ];
+        if (state.otherPlayer) {
+          finished.push({
+            player: state.otherPlayer.player,
+            score: state.otherPlayer.score,
+            level: state.otherPlayer.levelNumber,
+          });
+        }
+        updateInitialsQueue(
+          finished
+            .filter((entry) =>
+              qualifiesForHighScore(highScoresRef.current, entry.score),
+            )
+            .sort((a, b) => b.score - a.score),
+        );
+      }),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [syncHud, updateInitialsQueue]);
+
+  const requestPause = useCallback(() => {
+    const { status } = stateRef.current;
+    if (playbackRef.current || status === "paused" || status === "gameover") {
+      return;
+    }
+    pendingCommandRef.current = "pause";
+  }, []);
+
+  // Keyboard, swipes and the D-pad all buffer turns the same way: the engine
+  // keeps the turn in nextDir until Pac-Man reaches a tile where it fits,
+  // or drops it if none comes up soon enough.
+  const queueDirection = useCallback((direction: Direction) => {
+    if (playbackRef.current || initialsQueueRef.current.length > 0) {
+      return;
+    }
+    pendingDirectionRef.current = direction;
+  }, []);
+
+  const queueGhostDirection = useCallback((direction: Direction) => {
+    if (
+      playbackRef.current ||
+      initialsQueueRef.current.length > 0 ||
+      !stateRef.current.versusGhost
+    ) {
+      return;
+    }
+    pendingGhostDirectionRef.current = direction;
+  }, []);
+
+  const togglePause = useCallback(() => {
+    if (playbackRef.current || initialsQueueRef.current.length > 0) {
+      return;
+    }
+    if (stateRef.current.status === "paused") {
+      pendingCommandRef.current = "resume";
+    } else {
+      requestPause();
+    }
+  }, [requestPause]);
+
+  const handleAction = useCallback(
+    (action: InputAction) => {
+      if (isDirectionAction(action)) {
+        queueDirection(ACTION_DIRECTIONS[action]);
+      } else if (action === "pause") {
+        togglePause();
+      } else if (playbackRef.current || initialsQueueRef.current.length > 0) {
+        return;
+      } else if (playerCountRef.current === null) {
+        startGame(1);
+      } else if (stateRef.current.status === "gameover") {
+        resetGame();
+      }
+    },
+    [queueDirection, resetGame, startGame, togglePause],
+  );
+
+  useEffect(() => {
+    const poller = createGamepadPoller();
+    const ghostPoller = createGamepadPoller();
+    let frame = 0;
+    const poll = () => {
+      const pads = (navigator.getGamepads?.() ?? []).filter(
+        (pad) => pad !== null,
+      );
+      // In versus games the first pad drives Pac-Man and any other pad the
+      // ghost; otherwise every pad drives Pac-Man.
+      const versus = Boolean(stateRef.current.versusGhost);
+      const pacmanPads = versus ? pads.slice(0, 1) : pads;
+      const ghostPads = versus ? pads.slice(1) : [];
+      for (const action of pollGamepads(poller, bindingsRef.current, pacmanPads)) {
+        handleAction(action);
+      }
+      for (const action of pollGamepads(
+        ghostPoller,
+        bindingsRef.current,
+        ghostPads,
+      )) {
+        if (isDirectionAction(action)) {
+          queueGhostDirection(ACTION_DIRECTIONS[action]);
+        }
+      }
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [handleAction, queueGhostDirection]);
+
+  const handleOverlayTap = useCallback(() => {
+    const { status } = stateRef.current;
+    if (status === "gameover" && initialsQueueRef.current.length === 0) {
+      resetGame();
+    } else if (status === "paused") {
+      togglePause();
+    }
+  }, [resetGame, togglePause]);
+
+  const handleSwipeStart = useCallback(
+    (event: React.PointerEvent<HTMLDivElement>) => {
+      if (event.pointerType === "mouse") {
+        return;
+      }
+      swipeOriginRef.current = { x: event.clientX, y: event.clientY };
+    },
+    [],
+  );
+
+  const handleSwipeMove = useCallback(
+    (event: React.PointerEvent<HTMLDivElement>) => {
+      const origin = swipeOriginRef.current;
+      if (!origin) {
+        return;
+      }
+      const direction = swipeToDirection(
+        event.clientX - origin.x,
+        event.clientY - origin.y,
+      );
+      if (direction) {
+        queueDirection(direction);
+        // Re-anchor so one long drag can chain several turns.
+        swipeOriginRef.current = { x: event.clientX, y: event.clientY };
+      }
+    },
+    [queueDirection],
+  );
+
+  const handleSwipeEnd = useCallback(() => {
+    swipeOriginRef.current = null;
   }, []);
 
+  useEffect(() => {
+    // Background tabs stop animation frames, so the pause lands on the first
+    // frame back, before any of the time away is simulated.
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        requestPause();
+      }
+    };
+
+    window.addEventListener("blur", requestPause);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      window.removeEventListener("blur", requestPause);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [requestPause]);
+
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       const state = stateRef.current;
-      if (!state) {
+      if (
+        !state ||
+        playbackRef.current ||
+        initialsQueueRef.current.length > 0 ||
+        event.target instanceof HTMLInputElement
+      ) {
         return;
       }
 
-      if (event.key === " " && state.status !== "playing") {
+      // 1 and 2 pick the number of players, and 3 a versus game, on the
+      // start screen or after a game over.
+      if (
+        (event.key === "1" || event.key === "2" || event.key === "3") &&
+        (playerCountRef.current === null || state.status === "gameover")
+      ) {
         event.preventDefault();
-        resetGame();
+        if (event.key === "3") {
+          startGame(1, true);
+        } else {
+          startGame(Number(event.key));
+        }
         return;
       }
 
-      const direction = keyToDirection(event.key);
-      if (direction) {
+      const ghostAction = state.versusGhost
+        ? VERSUS_GHOST_KEYS[normalizeKey(event.key)]
+        : undefined;
+      if (ghostAction) {
         event.preventDefault();
-        state.player.nextDir = direction;
+        queueGhostDirection(ACTION_DIRECTIONS[ghostAction]);
+        return;
+      }
+
+      const action = actionForKey(bindingsRef.current, event.key);
+      if (action) {
+        event.preventDefault();
+        handleAction(action);
       }
     };
 
@@ -895,44 +839,236 @@ export default function PacmanGame() {
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
     };
-  }, [resetGame]);
+  }, [handleAction, queueGhostDirection, startGame]);
 
-  const boardWidth = level.width * TILE_SIZE;
-  const boardHeight = level.height * TILE_SIZE;
+  const level = mazeForLevel(mazes, levelNumber);
+  const score = scores[activePlayer] ?? 0;
+  const twoPlayer = scores.length > 1;
+  const startScreen = playerCount === null && !replayView;
+  const pendingInitials = initialsQueue[0];
   const overlayText =
     status === "gameover"
       ? "Game Over"
-      : status === "won"
-      ? "You Win!"
+      : status === "cleared"
+      ? `Level ${levelNumber} Clear!`
+      : status === "paused"
+      ? "Paused"
+      : status === "ready"
+      ? "Ready!"
       : null;
 
   return (
     <div
       className={styles.gameArea}
-      style={{ "--board-width": `${boardWidth}px` } as React.CSSProperties}
+      style={
+        {
+          "--board-aspect": level.width / level.height,
+          "--board-aspect-ratio": `${level.width} / ${level.height}`,
+        } as React.CSSProperties
+      }
     >
       <div className={styles.hud}>
-        <span>Score&nbsp;{score.toString().padStart(6, "0")}</span>
-        <span>Status&nbsp;{status === "playing" ? "Ready" : overlayText}</span>
+        {twoPlayer ? (
+          scores.map((playerScore, player) => (
+            <span
+              key={player}
+              className={
+                player === activePlayer ? styles.activePlayer : undefined
+              }
+            >
+              {player + 1}UP&nbsp;{playerScore.toString().padStart(6, "0")}
+            </span>
+          ))
+        ) : (
+          <span>Score&nbsp;{score.toString().padStart(6, "0")}</span>
+        )}
+        <span>
+          High&nbsp;
+          {Math.max(...scores, highScores[0]?.score ?? 0)
+            .toString()
+            .padStart(6, "0")}
+        </span>
+        {versusGhost ? (
+          <span>
+            {ghostName(versusGhost)}&nbsp;
+            {ghostScore.toString().padStart(6, "0")}
+          </span>
+        ) : null}
+        <span>Level&nbsp;{levelNumber}</span>
+        <span className={styles.lives} aria-label={`${lives} lives remaining`}>
+          {Array.from({ length: lives }, (_, index) => (
+            <span key={index} className={styles.lifeIcon} />
+          ))}
+        </span>
+        <span>
+          Status&nbsp;
+          {status === "playing"
+            ? "Playing"
+            : status === "dying"
+            ? "Caught!"
+            : overlayText}
+        </span>
       </div>
-      <div className={styles.canvasWrapper}>
-        <canvas
-          ref={canvasRef}
-          width={boardWidth}
-          height={boardHeight}
-        />
+      <div className={styles.boardRow}>
         <div
-          className={
-            overlayText ? styles.overlay : styles.overlayHidden
-          }
+          className={styles.canvasWrapper}
+          onPointerDown={handleSwipeStart}
+          onPointerMove={handleSwipeMove}
+          onPointerUp={handleSwipeEnd}
+          onPointerCancel={handleSwipeEnd}
         >
-          {overlayText}
+          <canvas ref={canvasRef} className={styles.board} />
+          {debug && frameStats ? (
+            <div className={styles.debugStats}>
+              {frameStats.fps.toFixed(0)} fps · frame{" "}
+              {frameStats.frameMs.toFixed(1)} ms · draw{" "}
+              {frameStats.drawMs.toFixed(2)} ms
+            </div>
+          ) : null}
+          <div
+            className={
+              overlayText || startScreen ? styles.overlay : styles.overlayHidden
+            }
+            onClick={handleOverlayTap}
+          >
+            {startScreen ? (
+              <div className={styles.startScreen}>
+                <button type="button" onClick={() => startGame(1)}>
+                  1 Player
+                </button>
+                <button type="button" onClick={() => startGame(2)}>
+                  2 Players
+                </button>
+                <button type="button" onClick={() => startGame(1, true)}>
+                  Versus
+                </button>
+                <span className={styles.overlayHint}>
+                  Press 1, 2 or 3 to start. In versus, a second player steers{" "}
+                  {ghostName(versusChoice)} with IJKL or a second gamepad.
+                </span>
+              </div>
+            ) : status === "gameover" && pendingInitials ? (
+              <InitialsEntry
+                key={pendingInitials.player}
+                score={pendingInitials.score}
+                label={
+                  twoPlayer ? `Player ${pendingInitials.player + 1}` : undefined
+                }
+                onSubmit={submitInitials}
+              />
+            ) : (
+              <>
+                {status === "ready" && twoPlayer ? (
+                  <span>Player {activePlayer + 1}</span>
+                ) : null}
+                {overlayText}
+                {status === "ready" ? (
+                  <span className={styles.countdown}>{readyCount}</span>
+                ) : null}
+                {status === "paused" && !replayView ? (
+                  <span className={styles.overlayHint}>
+                    Press P or Esc, or tap, to resume
+                  </span>
+                ) : null}
+                {status === "gameover" ? (
+                  <>
+                    <HighScoreTable entries={highScores} highlight={latestEntry} />
+                    <span className={styles.overlayHint}>
+                      Press Space or tap to play again, or 1, 2 or 3 to
+                      change mode
+                    </span>
+                  </>
+                ) : null}
+              </>
+            )}
+          </div>
+        </div>
+        {debug && ghostDebug ? <GhostDebugPanel rows={ghostRows} /> : null}
+      </div>
+      <FruitRow levelNumber={levelNumber} />
+      {replayView ? null : (
+        <DirectionPad
+          paused={status === "paused"}
+          onDirection={queueDirection}
+          onTogglePause={togglePause}
+        />
+      )}
+      <ReplayControls
+        view={replayView}
+        error={replayError}
+        onSave={saveReplay}
+        onLoad={loadReplay}
+        onTogglePause={toggleReplayPause}
+        onStep={stepReplay}
+        onSpeedChange={changeReplaySpeed}
+        onExit={resetGame}
+      />
+      <SoundControls settings={soundSettings} onChange={updateSoundSettings} />
+      <div className={styles.controls}>
+        <label>
+          Ghosts&nbsp;
+          <select
+            value={ghostMovement}
+            disabled={Boolean(replayView)}
+            onChange={(event) =>
+              changeGhostMovement(event.target.value as GhostMovement)
+            }
+          >
+            <option value="smart">Smart</option>
+            <option value="arcade">Arcade</option>
+          </select>
+        </label>
+        <label>
+          Versus ghost&nbsp;
+          <select
+            value={versusChoice}
+            disabled={Boolean(replayView)}
+            onChange={(event) => changeVersusChoice(event.target.value)}
+          >
+            {GHOST_IDS.map((id) => (
+              <option key={id} value={id}>
+                {ghostName(id)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {debug ? (
+        <div className={styles.controls}>
+          <button
+            type="button"
+            aria-pressed={ghostDebug}
+            onClick={toggleGhostDebug}
+          >
+            Ghost AI overlay
+          </button>
         </div>
+      ) : null}
+      <InputSettings
+        bindings={bindings}
+        onChange={updateBindings}
+        onOpen={requestPause}
+      />
+      <div className={styles.controls}>
+        {mazeError ? <p className={styles.warning}>{mazeError}</p> : null}
+        {mazePayload && !mazeError ? (
+          <>
+            <span>Playing {level.name}</span>
+            <Link href={`/editor?maze=${mazePayload}`}>Edit this maze</Link>
+            <Link href="/">Back to the bundled mazes</Link>
+          </>
+        ) : (
+          <>
+            <Link href="/editor">Maze editor</Link>
+            <Link href="/online">LAN versus</Link>
+          </>
+        )}
       </div>
       <p className={styles.instructions}>
-        Use the arrow keys or WASD to guide Pac-Man through the maze. Clear every pellet
-        while outsmarting the ghosts. If you get caught, press Space to try again once
-        the round ends.
+        Use the arrow keys, WASD or a gamepad to guide Pac-Man through the maze. Clear every pellet
+        while outsmarting the ghosts. Press P or Esc to pause, and remap any of this under Controls. On touch screens, swipe
+        across the board or use the on-screen pad. You start with three lives and earn an extra one
+        at 10,000 points. Once the last life is gone, press Space to try again.
       </p>
     </div>
   );
@@ -0,0 +1,106 @@
+"use client";
+
+import { useRef } from "react";
+import type { ReplayVerdict } from "@/game/replay";
+import styles from "./PacmanGame.module.css";
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export interface ReplayViewState {
+  paused: boolean;
+  speed: number;
+  verdict: ReplayVerdict | null;
+  recordedScore: number;
+  finalScore: number;
+}
+
+interface ReplayControlsProps {
+  view: ReplayViewState | null;
+  error: string | null;
+  onSave: () => void;
+  onLoad: (file: File) => void;
+  onTogglePause: () => void;
+  onStep: () => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+export default function ReplayControls({
+  view,
+  error,
+  onSave,
+  onLoad,
+  onTogglePause,
+  onStep,
+  onSpeedChange,
+  onExit,
+}: ReplayControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const verdict = view?.verdict;
+  const mismatch =
+    verdict && (!verdict.scoreMatches || !verdict.hashMatches)
+      ? verdict.scoreMatches
+        ? "Replay diverged: the final state hash does not match the recording."
+        : `Replay diverged: final score ${view.finalScore}, recorded ${view.recordedScore}.`
+      : null;
+
+  return (
+    <div className={styles.controls}>
+      {view ? (
+        <>
+          <span className={styles.replayBadge}>Replay</span>
+          <button type="button" onClick={onTogglePause}>
+            {view.paused ? "Play" : "Pause"}
+          </button>
+          <button type="button" onClick={onStep} disabled={!view.paused}>
+            Step
+          </button>
+          <label>
+            Speed&nbsp;
+            <select
+              value={view.speed}
+              onChange={(event) => onSpeedChange(Number(event.target.value))}
+            >
+              {REPLAY_SPEEDS.map((speed) => (
+                <option key={speed} value={speed}>
+                  {speed}×
+                </option>
+              ))}
+            </select>
+          </label>
+          <button type="button" onClick={onExit}>
+            Exit replay
+          </button>
+        </>
+      ) : (
+        <>
+          <button type="button" onClick={onSave}>
+            Save replay
+          </button>
+          <button type="button" onClick={() => fileInputRef.current?.click()}>
+            Load replay
+          </button>
+          <input
+            ref={fileInputRef}
+            className={styles.hiddenInput}
+            type="file"
+            accept="application/json,.json"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) {
+                onLoad(file);
+              }
+            }}
+          />
+        </>
+      )}
+      {mismatch ? <p className={styles.warning}>{mismatch}</p> : null}
+      {verdict && !mismatch ? (
+        <p className={styles.notice}>Replay finished and matches the recording.</p>
+      ) : null}
+      {error ? <p className={styles.warning}>{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import type { SoundSettings } from "./audio";
+import styles from "./PacmanGame.module.css";
+
+interface SoundControlsProps {
+  settings: SoundSettings;
+  onChange: (settings: SoundSettings) => void;
+}
+
+export default function SoundControls({
+  settings,
+  onChange,
+}: SoundControlsProps) {
+  return (
+    <div className={styles.controls}>
+      <button
+        type="button"
+        aria-pressed={settings.muted}
+        onClick={() => onChange({ ...settings, muted: !settings.muted })}
+      >
+        {settings.muted ? "Unmute" : "Mute"}
+      </button>
+      <label>
+        Volume&nbsp;
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.volume}
+          disabled={settings.muted}
+          onChange={(event) =>
+            onChange({ ...settings, volume: Number(event.target.value) })
+          }
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+import type { GameState } from "@/game/engine";
+import type { GameEventBus } from "@/game/events";
+import { readStoredJson, writeStoredJson } from "@/game/storage";
+
+export type SoundEffect =
+  | "waka"
+  | "ghostEaten"
+  | "fruitEaten"
+  | "death"
+  | "extraLife"
+  | "intro";
+
+// Looping background sound. The siren rises in pitch as progress (the share
+// of pellets eaten) goes from 0 to 1.
+export type Ambience =
+  | { kind: "siren"; progress: number }
+  | { kind: "frightened" };
+
+export interface SoundSettings {
+  muted: boolean;
+  // Master volume from 0 to 1.
+  volume: number;
+}
+
+export interface SoundEngine {
+  // Browsers only let audio start from a user gesture, so this must be
+  // called from a key or pointer handler before anything is heard.
+  unlock(): void;
+  play(effect: SoundEffect): void;
+  setAmbience(ambience: Ambience | null): void;
+  applySettings(settings: SoundSettings): void;
+  close(): void;
+}
+
+interface AmbienceLoop {
+  kind: Ambience["kind"];
+  oscillator: OscillatorNode;
+  lfo: OscillatorNode;
+  lfoDepth: GainNode;
+  gain: GainNode;
+}
+
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = {
+  muted: false,
+  volume: 0.5,
+};
+
+const STORAGE_KEY = "pacman.sound.v1";
+const LOOP_FADE = 0.05;
+
+// The opening tune as MIDI note numbers, one sixteenth note each; null is a
+// rest.
+const INTRO_NOTES: (number | null)[] = [
+  59, 71, 66, 63, 71, 66, 63, null,
+  60, 72, 67, 64, 72, 67, 64, null,
+  59, 71, 66, 63, 71, 66, 63, null,
+  63, 64, 65, null, 65, 66, 67, null,
+  67, 68, 69, null, 71, null, null, null,
+];
+const INTRO_NOTE_LENGTH = 0.11;
+// An intro asked for while the context is still starting plays once it has
+// started, unless starting took longer than this many milliseconds.
+const PENDING_INTRO_LIMIT_MS = 1000;
+
+function midiToFrequency(note: number): number {
+  return 440 * 2 ** ((note - 69) / 12);
+}
+
+function isSoundSettings(value: unknown): value is SoundSettings {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const settings = value as Record<string, unknown>;
+  return (
+    typeof settings.muted === "boolean" &&
+    typeof settings.volume === "number" &&
+    settings.volume >= 0 &&
+    settings.volume <= 1
+  );
+}
+
+export function loadSoundSettings(storage: Storage): SoundSettings {
+  const parsed = readStoredJson(storage, STORAGE_KEY);
+  return isSoundSettings(parsed) ? parsed : { ...DEFAULT_SOUND_SETTINGS };
+}
+
+export function saveSoundSettings(storage: Storage, settings: SoundSettings) {
+  writeStoredJson(storage, STORAGE_KEY, settings);
+}
+
+/**
+ * Plays the matching effect for each game event. Returns a function that
+ * removes the subscriptions.
+ */
+export function subscribeSound(
+  bus: GameEventBus,
+  sound: SoundEngine,
+): () => void {
+  const unsubscribers = [
+    bus.on("pelletEaten", () => sound.play("waka")),
+    bus.on("powerPelletEaten", () => sound.play("waka")),
+    bus.on("ghostEaten", () => sound.play("ghostEaten")),
+    bus.on("fruitEaten", () => sound.play("fruitEaten")),
+    bus.on("playerDied", () => sound.play("death")),
+    bus.on("extraLife", () => sound.play("extraLife")),
+  ];
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
+
+export function ambienceForState(state: GameState): Ambience | null {
+  if (state.status !== "playing") {
+    return null;
+  }
+  if (state.ghosts.some((ghost) => ghost.state === "frightened")) {
+    return { kind: "frightened" };
+  }
+  return {
+    kind: "siren",
+    progress: 1 - state.pelletCount / state.level.pelletCount,
+  };
+}
+
+/**
+ * Synthesizes every effect with oscillators, so no audio files are needed.
+ * The AudioContext is only created on unlock() to satisfy autoplay policies.
+ */
+export function createSoundEngine(initial: SoundSettings): SoundEngine {
+  let settings = initial;
+  let context: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let loop: AmbienceLoop | null = null;
+  let wakaHigh = false;
+  // When the intro was asked for before the context was running, or null.
+  let pendingIntroAt: number | null = null;
+
+  const running = () => context?.state === "running";
+
+  const applyVolume = () => {
+    if (context && master) {
+      master.gain.setTargetAtTime(
+        settings.muted ? 0 : settings.volume,
+        context.currentTime,
+        0.01,
+      );
+    }
+  };
+
+  // A single oscillator note with a frequency sweep and a short fade-out.
+  const tone = (
+    from: number,
+    to: number,
+    start: number,
+    duration: number,
+    type: OscillatorType,
+    volume: number,
+  ) => {
+    if (!context || !master) {
+      return;
+    }
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = type;
+    oscillator.frequency.setValueAtTime(from, start);
+    oscillator.frequency.linearRampToValueAtTime(to, start + duration);
+    gain.gain.setValueAtTime(volume, start);
+    gain.gain.linearRampToValueAtTime(0, start + duration);
+    oscillator.connect(gain).connect(master);
+    oscillator.start(start);
+    oscillator.stop(start + duration);
+  };
+
+  const stopLoop = () => {
+    if (!context || !loop) {
+      return;
+    }
+    const end = context.currentTime + LOOP_FADE;
+    loop.gain.gain.setTargetAtTime(0, context.currentTime, LOOP_FADE / 3);
+    loop.oscillator.stop(end);
+    loop.lfo.stop(end);
+    loop = null;
+  };
+
+  const startLoop = (kind: Ambience["kind"]): AmbienceLoop | null => {
+    if (!context || !master) {
+      return null;
+    }
+    const oscillator = context.createOscillator();
+    const lfo = context.createOscillator();
+    const lfoDepth = context.createGain();
+    const gain = context.createGain();
+
+    if (kind === "siren") {
+      oscillator.type = "sine";
+      lfo.type = "triangle";
+      lfo.frequency.value = 2.5;
+      lfoDepth.gain.value = 90;
+      gain.gain.value = 0.06;
+    } else {
+      oscillator.type = "square";
+      oscillator.frequency.value = 220;
+      lfo.type = "sawtooth";
+      lfo.frequency.value = 7;
+      lfoDepth.gain.value = 110;
+      gain.gain.value = 0.025;
+    }
+
+    lfo.connect(lfoDepth).connect(oscillator.frequency);
+    oscillator.connect(gain).connect(master);
+    oscillator.start();
+    lfo.start();
+    return { kind, oscillator, lfo, lfoDepth, gain };
+  };
+
+  const engine: SoundEngine = {
+    unlock() {
+      if (!context) {
+        const AudioContextClass =
+          window.AudioContext ??
+          (window as unknown as { webkitAudioContext?: typeof AudioContext })
+            .webkitAudioContext;
+        if (!AudioContextClass) {
+          return;
+        }
+        context = new AudioContextClass();
+        master = context.createGain();
+        master.gain.value = settings.muted ? 0 : settings.volume;
+        master.connect(context.destination);
+      }
+      if (context.state === "suspended") {
+        const starting = context;
+        void starting.resume().then(() => {
+          const requestedAt = pendingIntroAt;
+          pendingIntroAt = null;
+          if (
+            context === starting &&
+            requestedAt !== null &&
+            performance.now() - requestedAt <= PENDING_INTRO_LIMIT_MS
+          ) {
+            engine.play("intro");
+          }
+        });
+      }
+    },
+
+    play(effect) {
+      if (!context || !running()) {
+        // A context created by the gesture that started the game reports
+        // "suspended" until it has actually started.
+        if (context?.state === "suspended" && effect === "intro") {
+          pendingIntroAt = performance.now();
+        }
+        return;
+      }
+      const now = context.currentTime;
+      switch (effect) {
+        case "waka":
+          // Alternating up and down sweeps make the two-tone chomp.
+          wakaHigh = !wakaHigh;
+          tone(wakaHigh ? 480 : 260, wakaHigh ? 260 : 480, now, 0.1, "triangle", 0.18);
+          break;
+        case "ghostEaten":
+          tone(180, 1400, now, 0.35, "square", 0.08);
+          break;
+        case "fruitEaten":
+          tone(660, 990, now, 0.08, "square", 0.08);
+          tone(990, 1320, now + 0.09, 0.12, "square", 0.08);
+          break;
+        case "death":
+          for (let i = 0; i < 5; i += 1) {
+            const start = now + i * 0.2;
+            tone(900 - i * 130, 450 - i * 70, start, 0.2, "sawtooth", 0.08);
+          }
+          tone(180, 700, now + 1.1, 0.1, "square", 0.08);
+          tone(180, 700, now + 1.25, 0.1, "square", 0.08);
+          break;
+        case "extraLife":
+          for (let i = 0; i < 4; i += 1) {
+            tone(1047, 1047, now + i * 0.13, 0.09, "square", 0.07);
+          }
+          break;
+        case "intro":
+          INTRO_NOTES.forEach((note, index) => {
+            if (note !== null) {
+              const frequency = midiToFrequency(note);
+              const start = now + index * INTRO_NOTE_LENGTH;
+              tone(frequency, frequency, start, INTRO_NOTE_LENGTH * 0.9, "square", 0.06);
+            }
+          });
+          break;
+      }
+    },
+
+    setAmbience(ambience) {
+      if (!context || !running()) {
+        return;
+      }
+      if (!ambience) {
+        stopLoop();
+        return;
+      }
+      if (loop?.kind !== ambience.kind) {
+        stopLoop();
+        loop = startLoop(ambience.kind);
+      }
+      if (loop && ambience.kind === "siren") {
+        loop.oscillator.frequency.setTargetAtTime(
+          380 + ambience.progress * 420,
+          context.currentTime,
+          0.1,
+        );
+        loop.lfoDepth.gain.setTargetAtTime(
+          90 + ambience.progress * 90,
+          context.currentTime,
+          0.1,
+        );
+      }
+    },
+
+    applySettings(next) {
+      settings = next;
+      applyVolume();
+    },
+
+    close() {
+      stopLoop();
+      void context?.close();
+      context = null;
+      master = null;
+    },
+  };
+  return engine;
+}
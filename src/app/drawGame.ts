@@ -0,0 +1,205 @@
+import {
+  DEATH_DURATION,
+  FRIGHTENED_FLASH_TIME,
+  SCORE_POPUP_DURATION,
+  type GameState,
+} from "@/game/engine";
+import { drawFruit } from "./FruitRow";
+import { drawGhostDebug } from "./ghostDebug";
+import { drawMazeLayers, type MazeLayerCache } from "./mazeLayers";
+
+export const TILE_SIZE = 24;
+
+/**
+ * Draws the board in units of TILE_SIZE pixels per tile, stretched to fill
+ * the canvas's backing store whatever its size.
+ */
+export function drawGame(
+  ctx: CanvasRenderingContext2D,
+  state: GameState,
+  layers: MazeLayerCache,
+  ghostDebug = false,
+) {
+  const width = state.level.width * TILE_SIZE;
+  const height = state.level.height * TILE_SIZE;
+  ctx.setTransform(
+    ctx.canvas.width / width,
+    0,
+    0,
+    ctx.canvas.height / height,
+    0,
+    0,
+  );
+  ctx.clearRect(0, 0, width, height);
+
+  ctx.fillStyle = "#000000";
+  ctx.fillRect(0, 0, width, height);
+
+  // The maze blinks white during the intermission after a board is cleared.
+  const wallsFlashing =
+    state.status === "cleared" &&
+    Math.floor(state.intermissionTimer * 4) % 2 === 0;
+
+  drawMazeLayers(ctx, state, layers, TILE_SIZE, wallsFlashing);
+  if (ghostDebug) {
+    drawGhostDebug(ctx, state, TILE_SIZE);
+  }
+
+  if (state.fruit) {
+    drawFruit(
+      ctx,
+      state.fruit.kind,
+      (state.fruit.col + 0.5) * TILE_SIZE,
+      (state.fruit.row + 0.5) * TILE_SIZE,
+      TILE_SIZE,
+    );
+  }
+
+  // Score popups drift upwards and fade out over their lifetime.
+  ctx.font = `bold ${Math.round(TILE_SIZE * 0.5)}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  for (const popup of state.scorePopups) {
+    const progress = 1 - popup.timer / SCORE_POPUP_DURATION;
+    ctx.globalAlpha = Math.min(1, popup.timer / (SCORE_POPUP_DURATION / 3));
+    ctx.fillStyle = "#ffb8ff";
+    ctx.fillText(
+      popup.value.toString(),
+      popup.x * TILE_SIZE,
+      (popup.y - progress * 0.75) * TILE_SIZE,
+    );
+  }
+  ctx.globalAlpha = 1;
+
+  const player = state.player;
+  const playerX = player.x * TILE_SIZE;
+  const playerY = player.y * TILE_SIZE;
+  const playerRadius = TILE_SIZE * 0.45;
+  const angle =
+    player.dir.x === 0 && player.dir.y === 0
+      ? 0
+      : Math.atan2(player.dir.y, player.dir.x);
+  const deathProgress =
+    state.status === "dying" ? 1 - state.deathTimer / DEATH_DURATION : 0;
+  const mouth =
+    state.status === "dying"
+      ? Math.min(Math.PI / 8 + deathProgress * Math.PI, Math.PI * 0.999)
+      : Math.PI / 8 + (state.status === "playing" ? (Math.sin(state.elapsed * 8) + 1) * (Math.PI / 32) : 0);
+
+  ctx.fillStyle = "#ffe600";
+  ctx.beginPath();
+  ctx.moveTo(playerX, playerY);
+  ctx.arc(
+    playerX,
+    playerY,
+    playerRadius,
+    angle + mouth,
+    angle - mouth,
+    true,
+  );
+  ctx.closePath();
+  ctx.fill();
+
+  if (state.status === "dying") {
+    // Ghosts vanish while Pac-Man folds up.
+    return;
+  }
+
+  ctx.fillStyle = "#03224c";
+  ctx.beginPath();
+  ctx.arc(
+    playerX + Math.cos(angle) * playerRadius * 0.25 - Math.sin(angle) * playerRadius * 0.15,
+    playerY + Math.sin(angle) * playerRadius * 0.25 - Math.cos(angle) * playerRadius * 0.15,
+    playerRadius * 0.1,
+    0,
+    Math.PI * 2,
+  );
+  ctx.fill();
+
+  for (const ghost of state.ghosts) {
+    const gx = ghost.x * TILE_SIZE;
+    const gy = ghost.y * TILE_SIZE;
+    const radius = TILE_SIZE * 0.45;
+    const frightened = ghost.state === "frightened";
+
+    if (ghost.state !== "eaten") {
+      const flashing =
+        frightened &&
+        state.frightenedTimer < FRIGHTENED_FLASH_TIME &&
+        Math.floor(state.frightenedTimer * 5) % 2 === 0;
+      ctx.fillStyle = frightened
+        ? flashing
+          ? "#f4f4ff"
+          : "#2121ff"
+        : ghost.color;
+      ctx.beginPath();
+      ctx.arc(gx, gy - radius * 0.2, radius, Math.PI, 0, false);
+      ctx.lineTo(gx + radius, gy + radius * 0.6);
+
+      const scallops = 6;
+      for (let i = scallops; i >= 0; i -= 1) {
+        const waveX = gx + (radius * 2 * i) / scallops - radius;
+        const waveY =
+          gy + radius * 0.6 + (i % 2 === 0 ? radius * 0.2 : 0);
+        ctx.lineTo(waveX, waveY);
+      }
+      ctx.closePath();
+      ctx.fill();
+
+      if (frightened) {
+        const faceColor = flashing ? "#ff2020" : "#ffd0b0";
+        ctx.fillStyle = faceColor;
+        for (const offset of [-0.3, 0.3]) {
+          ctx.beginPath();
+          ctx.arc(
+            gx + radius * offset,
+            gy - radius * 0.2,
+            radius * 0.12,
+            0,
+            Math.PI * 2,
+          );
+          ctx.fill();
+        }
+
+        ctx.strokeStyle = faceColor;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        const mouthY = gy + radius * 0.25;
+        for (let i = 0; i <= 6; i += 1) {
+          const mx = gx - radius * 0.6 + (radius * 1.2 * i) / 6;
+          const my = mouthY + (i % 2 === 0 ? radius * 0.08 : -radius * 0.08);
+          if (i === 0) {
+            ctx.moveTo(mx, my);
+          } else {
+            ctx.lineTo(mx, my);
+          }
+        }
+        ctx.stroke();
+        continue;
+      }
+    }
+
+    const eyePositions = [
+      { x: gx - radius * 0.32, y: gy - radius * 0.1 },
+      { x: gx + radius * 0.1, y: gy - radius * 0.1 },
+    ];
+
+    for (const eye of eyePositions) {
+      ctx.fillStyle = "#ffffff";
+      ctx.beginPath();
+      ctx.arc(eye.x, eye.y, radius * 0.24, 0, Math.PI * 2);
+      ctx.fill();
+
+      ctx.fillStyle = "#1d206b";
+      ctx.beginPath();
+      ctx.arc(
+        eye.x + ghost.dir.x * radius * 0.18,
+        eye.y + ghost.dir.y * radius * 0.18,
+        radius * 0.12,
+        0,
+        Math.PI * 2,
+      );
+      ctx.fill();
+    }
+  }
+}
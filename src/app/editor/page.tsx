@@ -0,0 +1,15 @@
+import MazeEditor from "../MazeEditor";
+import styles from "../page.module.css";
+
+interface EditorPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function EditorPage({ searchParams }: EditorPageProps) {
+  const { maze } = await searchParams;
+  return (
+    <div className={styles.container}>
+      <MazeEditor initialPayload={typeof maze === "string" ? maze : null} />
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import {
+  inspectGhost,
+  type GameState,
+  type GhostState,
+} from "@/game/engine";
+import type { TileCoord } from "@/game/levels";
+
+// One line of the ghost debug panel.
+export interface GhostDebugRow {
+  id: string;
+  color: string;
+  state: GhostState;
+  x: number;
+  y: number;
+  target: TileCoord | null;
+  pathLength: number;
+  releaseIn: number | null;
+}
+
+const WALKABLE_TINT = "rgba(80, 255, 140, 0.08)";
+const GATE_TINT = "rgba(255, 150, 40, 0.45)";
+
+export function describeGhosts(state: GameState): GhostDebugRow[] {
+  return state.ghosts.map((ghost) => {
+    const insight = inspectGhost(state, ghost);
+    return {
+      id: ghost.id,
+      color: ghost.color,
+      state: ghost.state,
+      x: ghost.x,
+      y: ghost.y,
+      target: insight.target,
+      pathLength: Math.max(0, insight.path.length - 1),
+      releaseIn: insight.releaseIn,
+    };
+  });
+}
+
+/**
+ * Draws the walkable and gate tiles, then each ghost's planned path, target
+ * tile and state label in the ghost's color. Expects ctx to already be
+ * scaled to board units.
+ */
+export function drawGhostDebug(
+  ctx: CanvasRenderingContext2D,
+  state: GameState,
+  tileSize: number,
+) {
+  const { layout } = state;
+  const half = tileSize / 2;
+
+  for (let row = 0; row < layout.length; row += 1) {
+    for (let col = 0; col < layout[row].length; col += 1) {
+      const tile = layout[row][col];
+      if (tile === "#") {
+        continue;
+      }
+      ctx.fillStyle = tile === "=" ? GATE_TINT : WALKABLE_TINT;
+      ctx.fillRect(col * tileSize + 1, row * tileSize + 1, tileSize - 2, tileSize - 2);
+    }
+  }
+
+  ctx.lineWidth = 2;
+  ctx.font = `bold ${Math.round(tileSize * 0.4)}px monospace`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "bottom";
+
+  for (const ghost of state.ghosts) {
+    const insight = inspectGhost(state, ghost);
+    ctx.strokeStyle = ghost.color;
+    ctx.fillStyle = ghost.color;
+
+    // The path is broken where it wraps through a tunnel, so no line is
+    // drawn straight across the board.
+    ctx.setLineDash([4, 3]);
+    ctx.beginPath();
+    insight.path.forEach((tile, index) => {
+      const x = tile.col * tileSize + half;
+      const y = tile.row * tileSize + half;
+      const previous = insight.path[index - 1];
+      const wrapped =
+        previous &&
+        Math.abs(previous.col - tile.col) + Math.abs(previous.row - tile.row) > 1;
+      if (index === 0 || wrapped) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    });
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    if (insight.target) {
+      const x = insight.target.col * tileSize;
+      const y = insight.target.row * tileSize;
+      ctx.strokeRect(x + 2, y + 2, tileSize - 4, tileSize - 4);
+      ctx.beginPath();
+      ctx.moveTo(x + 5, y + 5);
+      ctx.lineTo(x + tileSize - 5, y + tileSize - 5);
+      ctx.moveTo(x + tileSize - 5, y + 5);
+      ctx.lineTo(x + 5, y + tileSize - 5);
+      ctx.stroke();
+    }
+
+    const label =
+      insight.releaseIn !== null
+        ? `${ghost.state} ${insight.releaseIn.toFixed(1)}s`
+        : ghost.state;
+    ctx.fillText(label, ghost.x * tileSize, (ghost.y - 0.55) * tileSize);
+  }
+}
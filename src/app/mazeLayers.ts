@@ -0,0 +1,252 @@
+import type { GameState } from "@/game/engine";
+
+/**
+ * Offscreen copies of the parts of the board that rarely change. Walls and
+ * the door only depend on the layout, so they are drawn once per level (and
+ * again when the canvas is resized). Pellets are redrawn when one is eaten.
+ */
+export interface MazeLayerCache {
+  layout: string[][] | null;
+  width: number;
+  height: number;
+  walls: HTMLCanvasElement | null;
+  flashingWalls: HTMLCanvasElement | null;
+  pellets: HTMLCanvasElement | null;
+  pelletGrid: boolean[][] | null;
+  pelletCount: number;
+}
+
+const WALL_COLOR = "#2a4dff";
+const WALL_GLOW = "rgba(42, 77, 255, 0.8)";
+const FLASH_COLOR = "#ffffff";
+const DOOR_COLOR = "#65f7ff";
+
+const SIDES = [
+  { x: 0, y: -1 },
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+];
+
+export function createMazeLayerCache(): MazeLayerCache {
+  return {
+    layout: null,
+    width: 0,
+    height: 0,
+    walls: null,
+    flashingWalls: null,
+    pellets: null,
+    pelletGrid: null,
+    pelletCount: -1,
+  };
+}
+
+// Tiles outside the grid count as wall, so the outer border is traced on the
+// inside only.
+function isWall(layout: string[][], col: number, row: number): boolean {
+  const tile = layout[row]?.[col];
+  return tile === undefined || tile === "#";
+}
+
+/**
+ * Which of a wall tile's four sides carry part of the outline. The outline
+ * runs through the centers of wall tiles that border open space, so a side
+ * is drawn when the neighbouring tile that way is also wall and open space
+ * touches the pair from either flank. One-tile walls become a single line;
+ * thicker blocks become a rounded outline.
+ */
+function outlineSides(layout: string[][], col: number, row: number) {
+  return SIDES.map((side) => {
+    const nextCol = col + side.x;
+    const nextRow = row + side.y;
+    if (layout[nextRow]?.[nextCol] !== "#") {
+      return false;
+    }
+    const flanks = [
+      { x: side.y, y: side.x },
+      { x: -side.y, y: -side.x },
+    ];
+    return flanks.some(
+      (flank) =>
+        !isWall(layout, col + flank.x, row + flank.y) ||
+        !isWall(layout, nextCol + flank.x, nextRow + flank.y),
+    );
+  });
+}
+
+function createLayer(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function scaleToBoard(
+  ctx: CanvasRenderingContext2D,
+  state: GameState,
+  tileSize: number,
+) {
+  ctx.setTransform(
+    ctx.canvas.width / (state.level.width * tileSize),
+    0,
+    0,
+    ctx.canvas.height / (state.level.height * tileSize),
+    0,
+    0,
+  );
+}
+
+function drawWalls(
+  layer: HTMLCanvasElement,
+  state: GameState,
+  tileSize: number,
+  flashing: boolean,
+) {
+  const ctx = layer.getContext("2d");
+  if (!ctx) {
+    return;
+  }
+  scaleToBoard(ctx, state, tileSize);
+  const { layout } = state;
+  const half = tileSize / 2;
+
+  ctx.strokeStyle = flashing ? FLASH_COLOR : WALL_COLOR;
+  ctx.lineWidth = tileSize * 0.16;
+  ctx.lineCap = "round";
+  ctx.shadowColor = flashing ? FLASH_COLOR : WALL_GLOW;
+  ctx.shadowBlur = tileSize * 0.3;
+  ctx.beginPath();
+
+  for (let row = 0; row < layout.length; row += 1) {
+    for (let col = 0; col < layout[row].length; col += 1) {
+      if (layout[row][col] !== "#") {
+        continue;
+      }
+      const cx = col * tileSize + half;
+      const cy = row * tileSize + half;
+      const sides = outlineSides(layout, col, row);
+      const drawn = SIDES.filter((_, index) => sides[index]);
+
+      // A lone pillar has no neighbours to connect to; it becomes a ring.
+      // Tiles buried inside a thick block have no sides either and stay
+      // empty.
+      if (drawn.length === 0) {
+        if (SIDES.every((side) => isWall(layout, col + side.x, row + side.y))) {
+          continue;
+        }
+        const radius = tileSize * 0.22;
+        ctx.moveTo(cx + radius, cy);
+        ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+        continue;
+      }
+
+      // Exactly two perpendicular sides make a corner, which is rounded off
+      // instead of meeting at the tile center.
+      if (drawn.length === 2 && drawn[0].x !== -drawn[1].x) {
+        ctx.moveTo(cx + drawn[0].x * half, cy + drawn[0].y * half);
+        ctx.quadraticCurveTo(
+          cx,
+          cy,
+          cx + drawn[1].x * half,
+          cy + drawn[1].y * half,
+        );
+        continue;
+      }
+      for (const side of drawn) {
+        ctx.moveTo(cx, cy);
+        ctx.lineTo(cx + side.x * half, cy + side.y * half);
+      }
+    }
+  }
+  ctx.stroke();
+
+  ctx.shadowBlur = 0;
+  ctx.fillStyle = DOOR_COLOR;
+  for (let row = 0; row < layout.length; row += 1) {
+    for (let col = 0; col < layout[row].length; col += 1) {
+      if (layout[row][col] === "=") {
+        ctx.fillRect(col * tileSize, row * tileSize + half - 2, tileSize, 4);
+      }
+    }
+  }
+}
+
+function drawPellets(
+  layer: HTMLCanvasElement,
+  state: GameState,
+  tileSize: number,
+) {
+  const ctx = layer.getContext("2d");
+  if (!ctx) {
+    return;
+  }
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, layer.width, layer.height);
+  scaleToBoard(ctx, state, tileSize);
+
+  state.pellets.forEach((row, rowIndex) => {
+    row.forEach((pellet, colIndex) => {
+      if (!pellet) {
+        return;
+      }
+      const power = state.powerPellets[rowIndex]?.[colIndex];
+      ctx.fillStyle = power ? "#fff2a6" : "#f6f6ce";
+      ctx.beginPath();
+      ctx.arc(
+        colIndex * tileSize + tileSize / 2,
+        rowIndex * tileSize + tileSize / 2,
+        power ? tileSize * 0.23 : tileSize * 0.1,
+        0,
+        Math.PI * 2,
+      );
+      ctx.fill();
+    });
+  });
+}
+
+/**
+ * Draws walls, door and pellets from the cache, rebuilding whichever layers
+ * are stale. Expects ctx to already be scaled to board units.
+ */
+export function drawMazeLayers(
+  ctx: CanvasRenderingContext2D,
+  state: GameState,
+  cache: MazeLayerCache,
+  tileSize: number,
+  wallsFlashing: boolean,
+) {
+  const { width, height } = ctx.canvas;
+  const resized = cache.width !== width || cache.height !== height;
+
+  if (resized || cache.layout !== state.layout) {
+    cache.layout = state.layout;
+    cache.width = width;
+    cache.height = height;
+    cache.walls = createLayer(width, height);
+    cache.flashingWalls = createLayer(width, height);
+    cache.pellets = createLayer(width, height);
+    cache.pelletGrid = null;
+    drawWalls(cache.walls, state, tileSize, false);
+    drawWalls(cache.flashingWalls, state, tileSize, true);
+  }
+
+  if (
+    cache.pellets &&
+    (cache.pelletGrid !== state.pellets ||
+      cache.pelletCount !== state.pelletCount)
+  ) {
+    cache.pelletGrid = state.pellets;
+    cache.pelletCount = state.pelletCount;
+    drawPellets(cache.pellets, state, tileSize);
+  }
+
+  const boardWidth = state.level.width * tileSize;
+  const boardHeight = state.level.height * tileSize;
+  const walls = wallsFlashing ? cache.flashingWalls : cache.walls;
+  if (walls) {
+    ctx.drawImage(walls, 0, 0, boardWidth, boardHeight);
+  }
+  if (cache.pellets) {
+    ctx.drawImage(cache.pellets, 0, 0, boardWidth, boardHeight);
+  }
+}
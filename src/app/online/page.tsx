@@ -0,0 +1,10 @@
+import OnlineGame from "../OnlineGame";
+import styles from "../page.module.css";
+
+export default function OnlinePage() {
+  return (
+    <div className={styles.container}>
+      <OnlineGame />
+    </div>
+  );
+}
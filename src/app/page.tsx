@@ -1,10 +1,19 @@
 import PacmanGame from "./PacmanGame";
 import styles from "./page.module.css";
 
-export default function Home() {
+interface HomeProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// ?maze= carries a maze shared from the editor; without it the bundled
+// level pack is played.
+export default async function Home({ searchParams }: HomeProps) {
+  const { maze } = await searchParams;
+  const mazePayload = typeof maze === "string" ? maze : null;
   return (
     <div className={styles.container}>
-      <PacmanGame />
+      {/* Keyed so switching mazes starts a fresh game. */}
+      <PacmanGame key={mazePayload ?? "bundled"} mazePayload={mazePayload} />
     </div>
   );
 }
@@ -0,0 +1,95 @@
+import { parseArgs } from "node:util";
+import {
+  createAutopilot,
+  runHeadlessGame,
+  type HeadlessGameResult,
+} from "../game/bot";
+import type { GhostMovement } from "../game/engine";
+import { loadLevelPack } from "../game/levels";
+import bundledLevelPack from "../game/levels/bundled.json";
+
+const USAGE = `Usage: npm run bench -- [options]
+
+Plays seeded headless games with the autopilot and reports the averages.
+
+  --games <n>      games to play (default 20)
+  --seed <n>       seed of the first game; game i uses seed + i (default 1)
+  --ghosts <mode>  ghost movement, smart or arcade (default smart)
+  --minutes <n>    game-time limit per game (default 10)
+  --verbose        print a line for every game
+  --help           show this message`;
+
+function readInteger(name: string, value: string, min: number): number {
+  const number = Number(value);
+  if (value.trim() === "" || !Number.isInteger(number) || number < min) {
+    throw new Error(
+      `--${name} must be a whole number of at least ${min}, got "${value}".`,
+    );
+  }
+  return number;
+}
+
+function readGhostMovement(value: string): GhostMovement {
+  if (value !== "smart" && value !== "arcade") {
+    throw new Error(`--ghosts must be smart or arcade, got "${value}".`);
+  }
+  return value;
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      games: { type: "string", default: "20" },
+      seed: { type: "string", default: "1" },
+      ghosts: { type: "string", default: "smart" },
+      minutes: { type: "string", default: "10" },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const games = readInteger("games", values.games, 1);
+  const seed = readInteger("seed", values.seed, 0);
+  const ghostMovement = readGhostMovement(values.ghosts);
+  const maxTicks = readInteger("minutes", values.minutes, 1) * 60 * 60;
+  const mazes = loadLevelPack(bundledLevelPack);
+
+  const results: HeadlessGameResult[] = [];
+  for (let index = 0; index < games; index += 1) {
+    const result = runHeadlessGame(mazes, createAutopilot(), {
+      seed: seed + index,
+      ghostMovement,
+      maxTicks,
+    });
+    results.push(result);
+    if (values.verbose) {
+      console.log(
+        `seed ${result.seed}: score ${result.score}, ` +
+          `${result.survivalSeconds.toFixed(1)} s, ` +
+          `${result.levelsCleared} level(s) cleared` +
+          (result.gameOver ? "" : ", stopped at the time limit"),
+      );
+    }
+  }
+
+  const mean = (pick: (result: HeadlessGameResult) => number) =>
+    results.reduce((sum, result) => sum + pick(result), 0) / results.length;
+  const clearRate = mean((result) => (result.levelsCleared > 0 ? 1 : 0));
+
+  console.log(`Games:            ${games} (${ghostMovement} ghosts, seeds ${seed}-${seed + games - 1})`);
+  console.log(`Mean score:       ${mean((result) => result.score).toFixed(0)}`);
+  console.log(`Mean survival:    ${mean((result) => result.survivalSeconds).toFixed(1)} s`);
+  console.log(`Clear rate:       ${(clearRate * 100).toFixed(0)}%`);
+  console.log(`Mean levels:      ${mean((result) => result.levelsCleared).toFixed(2)}`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}
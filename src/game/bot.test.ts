@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createAutopilot, runHeadlessGame } from "./bot";
+import { DEATH_DURATION, FIXED_DT } from "./engine";
+import { loadLevelPack } from "./levels";
+import bundledLevelPack from "./levels/bundled.json";
+
+const mazes = loadLevelPack(bundledLevelPack);
+
+test("a seeded autopilot game plays out the same way every time", () => {
+  const first = runHeadlessGame(mazes, createAutopilot(), { seed: 0 });
+  const second = runHeadlessGame(mazes, createAutopilot(), { seed: 0 });
+  assert.deepEqual(first, second);
+  assert.equal(first.seed, 0);
+  assert.ok(first.gameOver, "the autopilot should lose its lives well within the limit");
+  assert.ok(first.score > 0);
+  // Survival counts play only, not the three deaths.
+  const totalSeconds = first.ticks * FIXED_DT;
+  assert.ok(first.survivalSeconds <= totalSeconds - 3 * DEATH_DURATION);
+});
+
+test("a game still going at the tick limit is stopped there", () => {
+  const result = runHeadlessGame(mazes, createAutopilot(), {
+    seed: 0,
+    maxTicks: 600,
+  });
+  assert.equal(result.ticks, 600);
+  assert.equal(result.gameOver, false);
+  assert.ok(result.survivalSeconds > 0 && result.survivalSeconds <= 10);
+});
@@ -0,0 +1,301 @@
+import {
+  createGameState,
+  FIXED_DT,
+  step,
+  type Direction,
+  type GameState,
+  type GameStatus,
+  type GhostMovement,
+  type GhostState,
+} from "./engine";
+import type { GameEventListener } from "./events";
+import type { LevelData, TileCoord } from "./levels";
+
+/**
+ * What a controller sees of the game on one tick. The grids are the live
+ * ones from the state, so controllers must treat them as read-only.
+ */
+export interface Observation {
+  tick: number;
+  status: GameStatus;
+  score: number;
+  lives: number;
+  levelNumber: number;
+  // Maze tiles by row: "#" wall, "=" pen gate, "T" tunnel, anything else open.
+  grid: readonly (readonly string[])[];
+  pellets: readonly (readonly boolean[])[];
+  powerPellets: readonly (readonly boolean[])[];
+  player: ObservedActor;
+  ghosts: ObservedGhost[];
+  // Seconds of frightened time left, or 0.
+  frightenedTimer: number;
+}
+
+export interface ObservedActor {
+  x: number;
+  y: number;
+  dir: Direction;
+  tile: TileCoord;
+}
+
+export interface ObservedGhost extends ObservedActor {
+  id: string;
+  state: GhostState;
+}
+
+/**
+ * Steers Pac-Man. decide() is called on every tick of play and returns the
+ * turn to buffer, or null to keep going as before.
+ */
+export interface Controller {
+  decide(observation: Observation): Direction | null;
+}
+
+export interface HeadlessGameOptions {
+  seed: number;
+  levelNumber?: number;
+  ghostMovement?: GhostMovement;
+  // Stops a game that is still going after this many ticks.
+  maxTicks?: number;
+}
+
+export interface HeadlessGameResult {
+  seed: number;
+  score: number;
+  ticks: number;
+  // Seconds of play until the last life was lost or the tick limit was
+  // reached, leaving out deaths, "Ready!" countdowns and intermissions.
+  survivalSeconds: number;
+  levelsCleared: number;
+  gameOver: boolean;
+}
+
+// Ten minutes of play.
+const DEFAULT_MAX_TICKS = 10 * 60 * 60;
+// Tiles a dangerous ghost could reach within this many steps of Pac-Man
+// arriving are avoided when routing.
+const SAFETY_MARGIN = 1;
+// Frightened ghosts about to recover count as dangerous again.
+const FRIGHTENED_MARGIN = 1;
+const DIRECTIONS: Direction[] = [
+  { x: 0, y: -1 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 1, y: 0 },
+];
+
+function observeActor(actor: { x: number; y: number; dir: Direction }) {
+  return {
+    x: actor.x,
+    y: actor.y,
+    dir: { ...actor.dir },
+    tile: { col: Math.floor(actor.x), row: Math.floor(actor.y) },
+  };
+}
+
+export function observe(state: GameState): Observation {
+  return {
+    tick: state.tick,
+    status: state.status,
+    score: state.score,
+    lives: state.lives,
+    levelNumber: state.levelNumber,
+    grid: state.layout,
+    pellets: state.pellets,
+    powerPellets: state.powerPellets,
+    player: observeActor(state.player),
+    ghosts: state.ghosts.map((ghost) => ({
+      ...observeActor(ghost),
+      id: ghost.id,
+      state: ghost.state,
+    })),
+    frightenedTimer: state.frightenedTimer,
+  };
+}
+
+function isOpen(grid: Observation["grid"], col: number, row: number) {
+  const tile = grid[row]?.[col];
+  return tile !== undefined && tile !== "#" && tile !== "=";
+}
+
+function isDangerous(ghost: ObservedGhost, frightenedTimer: number) {
+  if (ghost.state === "frightened") {
+    return frightenedTimer < FRIGHTENED_MARGIN;
+  }
+  return (
+    ghost.state === "chase" ||
+    ghost.state === "scatter" ||
+    ghost.state === "exiting"
+  );
+}
+
+// Open neighbours of a tile as row * width + col indices, wrapping through
+// tunnels.
+function neighbours(grid: Observation["grid"], index: number): number[] {
+  const width = grid[0].length;
+  const col = index % width;
+  const row = Math.floor(index / width);
+  const result: number[] = [];
+  for (const dir of DIRECTIONS) {
+    const nextCol = (col + dir.x + width) % width;
+    const nextRow = row + dir.y;
+    if (isOpen(grid, nextCol, nextRow)) {
+      result.push(nextRow * width + nextCol);
+    }
+  }
+  return result;
+}
+
+// Corridor distance from the nearest source to every tile, or -1 where no
+// source can reach.
+function distancesFrom(grid: Observation["grid"], sources: number[]) {
+  const distances = new Int32Array(grid.length * grid[0].length).fill(-1);
+  const queue: number[] = [];
+  for (const source of sources) {
+    if (distances[source] === -1) {
+      distances[source] = 0;
+      queue.push(source);
+    }
+  }
+  for (let head = 0; head < queue.length; head += 1) {
+    const index = queue[head];
+    for (const next of neighbours(grid, index)) {
+      if (distances[next] === -1) {
+        distances[next] = distances[index] + 1;
+        queue.push(next);
+      }
+    }
+  }
+  return distances;
+}
+
+/**
+ * A pellet-seeking autopilot. It runs a breadth-first search along the
+ * corridors to the nearest pellet, or to a frightened ghost if one is
+ * closer, through tiles Pac-Man reaches well before any dangerous ghost can.
+ * When no such route exists it moves to the neighbouring tile the ghosts
+ * are farthest from.
+ */
+export function createAutopilot(): Controller {
+  return {
+    decide(observation) {
+      const { grid, player, frightenedTimer } = observation;
+      const width = grid[0].length;
+      const indexOf = (tile: TileCoord) => tile.row * width + tile.col;
+      const start = indexOf(player.tile);
+
+      const threats = observation.ghosts.filter((ghost) =>
+        isDangerous(ghost, frightenedTimer),
+      );
+      const prey = new Set(
+        observation.ghosts
+          .filter(
+            (ghost) =>
+              ghost.state === "frightened" &&
+              !isDangerous(ghost, frightenedTimer),
+          )
+          .map((ghost) => indexOf(ghost.tile)),
+      );
+      const ghostDistance = distancesFrom(
+        grid,
+        threats.map((ghost) => indexOf(ghost.tile)),
+      );
+      const isSafe = (index: number, distance: number) =>
+        ghostDistance[index] === -1 ||
+        ghostDistance[index] > distance + SAFETY_MARGIN;
+
+      // Each tile remembers the first step taken from the start to reach it.
+      const firstStep = new Map<number, Direction>();
+      const distance = new Map<number, number>([[start, 0]]);
+      const queue: number[] = [];
+      for (const next of neighbours(grid, start)) {
+        if (isSafe(next, 1)) {
+          firstStep.set(next, directionBetween(width, start, next));
+          distance.set(next, 1);
+          queue.push(next);
+        }
+      }
+      for (let head = 0; head < queue.length; head += 1) {
+        const index = queue[head];
+        const col = index % width;
+        const row = Math.floor(index / width);
+        if (observation.pellets[row][col] || prey.has(index)) {
+          return firstStep.get(index)!;
+        }
+        const nextDistance = distance.get(index)! + 1;
+        for (const next of neighbours(grid, index)) {
+          if (!distance.has(next) && isSafe(next, nextDistance)) {
+            firstStep.set(next, firstStep.get(index)!);
+            distance.set(next, nextDistance);
+            queue.push(next);
+          }
+        }
+      }
+
+      let best: number | null = null;
+      for (const next of neighbours(grid, start)) {
+        if (
+          best === null ||
+          (ghostDistance[best] !== -1 &&
+            (ghostDistance[next] === -1 ||
+              ghostDistance[next] > ghostDistance[best]))
+        ) {
+          best = next;
+        }
+      }
+      return best === null ? null : directionBetween(width, start, best);
+    },
+  };
+}
+
+function directionBetween(width: number, from: number, to: number): Direction {
+  const wrap = (delta: number) =>
+    Math.abs(delta) > 1 ? -Math.sign(delta) : delta;
+  return {
+    x: wrap((to % width) - (from % width)),
+    y: Math.floor(to / width) - Math.floor(from / width),
+  };
+}
+
+/**
+ * Plays one game to the end without rendering, asking the controller for a
+ * turn on every tick of play.
+ */
+export function runHeadlessGame(
+  mazes: LevelData[],
+  controller: Controller,
+  options: HeadlessGameOptions,
+): HeadlessGameResult {
+  const state = createGameState(
+    mazes,
+    options.levelNumber ?? 1,
+    options.seed,
+    options.ghostMovement ?? "smart",
+  );
+  const maxTicks = options.maxTicks ?? DEFAULT_MAX_TICKS;
+  let levelsCleared = 0;
+  let playingTicks = 0;
+  const onEvent: GameEventListener = (event) => {
+    if (event.type === "levelCleared") {
+      levelsCleared += 1;
+    }
+  };
+
+  while (state.status !== "gameover" && state.tick < maxTicks) {
+    let direction: Direction | null = null;
+    if (state.status === "playing") {
+      direction = controller.decide(observe(state));
+      playingTicks += 1;
+    }
+    step(state, { direction }, onEvent);
+  }
+
+  return {
+    seed: options.seed,
+    score: state.score,
+    ticks: state.tick,
+    survivalSeconds: playingTicks * FIXED_DT,
+    levelsCleared,
+    gameOver: state.status === "gameover",
+  };
+}
@@ -0,0 +1,529 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  advanceClock,
+  CORNERING_WINDOW,
+  createClock,
+  createGameState,
+  DEATH_DURATION,
+  FIXED_DT,
+  inspectGhost,
+  READY_DURATION,
+  step,
+  TURN_BUFFER_TIME,
+  type GameState,
+  type Ghost,
+  type StepInput,
+} from "./engine";
+import type { GameEvent, GameEventListener } from "./events";
+import { loadLevelPack, parseLevel, type TileCoord } from "./levels";
+import bundledLevelPack from "./levels/bundled.json";
+import { hashState } from "./replay";
+
+const mazes = loadLevelPack(bundledLevelPack);
+const TURNS = [
+  { x: -1, y: 0 },
+  { x: 0, y: -1 },
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+];
+
+// A fixed input list: a new turn every 23 ticks, cycling through the four
+// directions.
+function scriptedInput(tick: number): StepInput {
+  return { direction: tick % 23 === 0 ? TURNS[(tick / 23) % 4] : null };
+}
+
+function play(seed: number, ghostMovement: "smart" | "arcade", ticks: number) {
+  const state = createGameState(mazes, 1, seed, ghostMovement);
+  for (let tick = 0; tick < ticks; tick += 1) {
+    step(state, scriptedInput(tick));
+  }
+  return state;
+}
+
+test("the same seed and inputs produce identical states", () => {
+  for (const ghostMovement of ["smart", "arcade"] as const) {
+    const first = play(1234, ghostMovement, 3000);
+    const second = play(1234, ghostMovement, 3000);
+    assert.ok(first.score > 0, "the scripted inputs should eat some pellets");
+    assert.equal(hashState(first), hashState(second));
+    assert.equal(first.score, second.score);
+  }
+});
+
+// A crossroads at (5, 3): Pac-Man runs right along row 3 and can turn up
+// into column 5. The ghosts stay penned for the whole test.
+const crossroads = parseLevel(
+  [
+    "###########",
+    "#....P....#",
+    "#.###.###.#",
+    "#.........#",
+    "#.###=###.#",
+    "#.#GGGGG#.#",
+    "#.#######.#",
+    "#.........#",
+    "###########",
+  ],
+  {
+    id: "crossroads-test",
+    name: "Crossroads test",
+    fruitThresholds: [5, 10],
+    difficulty: { releaseDelays: [600, 600, 600, 600] },
+  },
+);
+const UP = { x: 0, y: -1 };
+const RIGHT = { x: 1, y: 0 };
+// Uneven frame times, as a browser under load would deliver them.
+const FRAME_TIMES = [0.007, 0.023, 0.016, 0.031, 0.011, 0.019];
+
+type Driver = (state: GameState, seconds: number, input?: StepInput) => void;
+
+const drivers: Record<string, Driver> = {
+  "step()": (state, seconds, input) => {
+    const ticks = Math.round(seconds / FIXED_DT);
+    for (let tick = 0; tick < ticks; tick += 1) {
+      step(state, tick === 0 && input ? input : { direction: null });
+    }
+  },
+  "advanceClock()": (state, seconds, input) => {
+    const clock = createClock();
+    let pending = input;
+    let elapsed = 0;
+    for (let frame = 0; elapsed < seconds - 1e-9; frame += 1) {
+      const frameTime = Math.min(
+        FRAME_TIMES[frame % FRAME_TIMES.length],
+        seconds - elapsed,
+      );
+      elapsed += frameTime;
+      // Like the game loop, input waits for a frame that runs a tick.
+      if (advanceClock(clock, state, frameTime, pending) > 0) {
+        pending = undefined;
+      }
+    }
+  },
+};
+
+// Pac-Man heading right along row 3 at the given x, with no turn buffered.
+function runningRight(x: number): GameState {
+  const state = createGameState([crossroads], 1, 1);
+  state.player.x = x;
+  state.player.y = 3.5;
+  state.player.dir = { ...RIGHT };
+  return state;
+}
+
+const pressUp: StepInput = { direction: UP };
+
+for (const [name, drive] of Object.entries(drivers)) {
+  describe(`cornering through ${name}`, () => {
+    test("a turn pressed before the center inside the window is taken", () => {
+      const state = runningRight(5.5 - 0.25);
+      drive(state, FIXED_DT, pressUp);
+      assert.deepEqual(state.player.dir, UP);
+      assert.ok(state.player.y < 3.5);
+    });
+
+    test("a turn pressed after the center inside the window is taken", () => {
+      const state = runningRight(5.5 + 0.2);
+      drive(state, FIXED_DT, pressUp);
+      assert.deepEqual(state.player.dir, UP);
+    });
+
+    test("a turn pressed right at the window's edge is taken", () => {
+      // 0.3 tiles past the center, which in floating point lands a hair
+      // beyond it, as it does for x = 13.8 on a wider maze.
+      const state = runningRight(13.8 - 8);
+      assert.ok(state.player.x - 5.5 > CORNERING_WINDOW);
+      drive(state, FIXED_DT, pressUp);
+      assert.deepEqual(state.player.dir, UP);
+    });
+
+    test("a turn pressed just outside the window is not taken", () => {
+      const state = runningRight(5.5 + CORNERING_WINDOW + 0.05);
+      drive(state, FIXED_DT, pressUp);
+      assert.deepEqual(state.player.dir, RIGHT);
+      assert.equal(state.player.y, 3.5);
+      assert.deepEqual(state.player.nextDir, UP);
+    });
+
+    test("a cut corner pulls Pac-Man back onto the center line", () => {
+      const state = runningRight(5.5 - 0.25);
+      drive(state, FIXED_DT, pressUp);
+      // Partway through the corner he is off both center lines.
+      assert.ok(state.player.x > 5.25 && state.player.x < 5.5);
+      drive(state, 0.1);
+      assert.equal(state.player.x, 5.5);
+      assert.deepEqual(state.player.dir, UP);
+      assert.ok(state.player.y < 3);
+    });
+
+    test("a buffered turn that never fits is dropped", () => {
+      // From here the next opening upwards is at column 9, more than
+      // TURN_BUFFER_TIME away at level 1 speed.
+      const state = runningRight(5.5 + CORNERING_WINDOW + 0.05);
+      assert.ok((9.5 - state.player.x) / state.player.speed > TURN_BUFFER_TIME);
+      drive(state, TURN_BUFFER_TIME - 0.05, pressUp);
+      assert.deepEqual(state.player.nextDir, UP);
+      drive(state, 0.5);
+      assert.deepEqual(state.player.nextDir, { x: 0, y: 0 });
+      // Without the turn he runs into the wall at the end of the row.
+      assert.equal(state.player.x, 9.5);
+      assert.equal(state.player.y, 3.5);
+      assert.deepEqual(state.player.dir, { x: 0, y: 0 });
+    });
+  });
+}
+
+// Lets a penned ghost out onto the crossroads maze at the given tile.
+function loose(ghost: Ghost, col: number, row: number) {
+  ghost.state = "scatter";
+  ghost.x = col + 0.5;
+  ghost.y = row + 0.5;
+}
+
+// Puts a power pellet under Pac-Man, who is standing still, and lets him
+// eat it.
+function eatPowerPellet(state: GameState, onEvent?: GameEventListener) {
+  const col = Math.floor(state.player.x);
+  const row = Math.floor(state.player.y);
+  state.pellets[row][col] = true;
+  state.powerPellets[row][col] = true;
+  step(state, { direction: null }, onEvent);
+}
+
+// Moves a ghost onto Pac-Man and returns the points eating it scored.
+function catchGhost(state: GameState, ghost: Ghost): number {
+  let points = 0;
+  ghost.x = state.player.x;
+  ghost.y = state.player.y;
+  step(state, { direction: null }, (event) => {
+    if (event.type === "ghostEaten" && event.ghostId === ghost.id) {
+      points = event.points;
+    }
+  });
+  return points;
+}
+
+describe("power pellets", () => {
+  function frightenedState(): GameState {
+    const state = createGameState([crossroads], 1, 1);
+    state.ghosts.forEach((ghost, index) => loose(ghost, [1, 3, 7, 9][index], 7));
+    eatPowerPellet(state);
+    assert.ok(state.ghosts.every((ghost) => ghost.state === "frightened"));
+    return state;
+  }
+
+  test("ghosts eaten on one power pellet score 200, 400, 800 and 1600", () => {
+    const state = frightenedState();
+    const before = state.score;
+    const points = state.ghosts.map((ghost) => catchGhost(state, ghost));
+    assert.deepEqual(points, [200, 400, 800, 1600]);
+    assert.equal(state.score - before, 3000);
+    assert.ok(state.ghosts.every((ghost) => ghost.state === "eaten"));
+    assert.equal(state.status, "playing");
+  });
+
+  test("the next power pellet starts the chain again at 200", () => {
+    const state = frightenedState();
+    const [first, second, third, fourth] = state.ghosts;
+    assert.deepEqual([catchGhost(state, first), catchGhost(state, second)], [200, 400]);
+    eatPowerPellet(state);
+    assert.equal(state.ghostCombo, 0);
+    assert.deepEqual([catchGhost(state, third), catchGhost(state, fourth)], [200, 400]);
+  });
+
+  test("an eaten ghost goes back to the pen and comes out again", () => {
+    const state = frightenedState();
+    const ghost = state.ghosts[0];
+    catchGhost(state, ghost);
+
+    const states = [ghost.state];
+    let enteredAt: TileCoord | null = null;
+    for (let tick = 0; tick < 5 / FIXED_DT && states.length < 3; tick += 1) {
+      step(state);
+      if (ghost.state !== states.at(-1)) {
+        states.push(ghost.state);
+        if (ghost.state === "exiting") {
+          enteredAt = { col: Math.floor(ghost.x), row: Math.floor(ghost.y) };
+        }
+      }
+    }
+    assert.deepEqual(states, ["eaten", "exiting", state.ghostMode]);
+    assert.deepEqual(enteredAt, ghost.home);
+    // It rejoins the maze at the tile outside the pen door, at normal speed.
+    assert.deepEqual(
+      { col: Math.floor(ghost.x), row: Math.floor(ghost.y) },
+      crossroads.exitTile,
+    );
+    assert.equal(ghost.speed, state.difficulty.ghostSpeed);
+  });
+});
+
+describe("scatter and chase waves", () => {
+  // Game time of every mode switch in the given number of seconds, with
+  // Pac-Man standing still and the ghosts penned.
+  function modeSwitches(state: GameState, seconds: number) {
+    const switches: { mode: string; at: number }[] = [];
+    for (let tick = 0; tick < seconds / FIXED_DT; tick += 1) {
+      step(state, { direction: null }, (event) => {
+        if (event.type === "ghostModeChanged") {
+          switches.push({ mode: event.mode, at: state.elapsed });
+        }
+      });
+    }
+    return switches;
+  }
+
+  function assertSwitchTimes(
+    switches: { mode: string; at: number }[],
+    expected: number[],
+    tolerance = FIXED_DT * 1.5,
+  ) {
+    assert.equal(switches.length, expected.length);
+    switches.forEach(({ mode, at }, index) => {
+      assert.equal(mode, index % 2 === 0 ? "chase" : "scatter");
+      assert.ok(
+        Math.abs(at - expected[index]) < tolerance,
+        `switch ${index} came at ${at} s, expected ${expected[index]} s`,
+      );
+    });
+  }
+
+  test("each level runs its own wave schedule", () => {
+    const scheduleFor = (levelNumber: number) =>
+      createGameState([crossroads], levelNumber, 1).modeSchedule;
+    assert.deepEqual(scheduleFor(1), [7, 20, 7, 20, 5, 20, 5, Infinity]);
+    assert.deepEqual(scheduleFor(2), [7, 20, 7, 20, 5, 1033, 1 / 60, Infinity]);
+    assert.deepEqual(scheduleFor(5), [5, 20, 5, 20, 5, 1037, 1 / 60, Infinity]);
+
+    const levelOne = createGameState([crossroads], 1, 1);
+    assertSwitchTimes(modeSwitches(levelOne, 100), [7, 27, 34, 54, 59, 79, 84]);
+    assert.equal(levelOne.ghostMode, "chase");
+
+    const levelFive = createGameState([crossroads], 5, 1);
+    assertSwitchTimes(modeSwitches(levelFive, 40), [5, 25, 30]);
+  });
+
+  test("the schedule stands still while the ghosts are frightened", () => {
+    const state = createGameState([crossroads], 1, 1);
+    assert.equal(modeSwitches(state, 3).length, 0);
+    eatPowerPellet(state);
+    const modeTimer = state.modeTimer;
+    const duration = state.difficulty.frightenedDuration;
+    assert.equal(modeSwitches(state, duration - 0.1).length, 0);
+    assert.equal(state.modeTimer, modeTimer);
+    assert.equal(state.ghostMode, "scatter");
+
+    // The first chase wave arrives late by exactly the frightened time.
+    const switches = modeSwitches(state, 10);
+    assertSwitchTimes(switches.slice(0, 1), [7 + duration], FIXED_DT * 2.5);
+  });
+
+  test("every switch turns the roaming ghosts around", () => {
+    const state = createGameState([crossroads], 1, 1);
+    // Between tile centers, so nothing but the switch changes direction.
+    const placements = [
+      { x: 2.75, y: 3.5, dir: { x: 1, y: 0 } },
+      { x: 8.25, y: 3.5, dir: { x: -1, y: 0 } },
+      { x: 2.75, y: 7.5, dir: { x: 1, y: 0 } },
+      { x: 8.25, y: 7.5, dir: { x: -1, y: 0 } },
+    ];
+    for (let index = 0; index < state.modeSchedule.length - 1; index += 1) {
+      state.modeIndex = index;
+      state.ghostMode = index % 2 === 0 ? "scatter" : "chase";
+      state.modeTimer = FIXED_DT / 2;
+      state.ghosts.forEach((ghost, ghostIndex) => {
+        const { x, y, dir } = placements[ghostIndex];
+        Object.assign(ghost, { x, y, dir: { ...dir }, state: state.ghostMode });
+      });
+
+      step(state);
+      const mode = index % 2 === 0 ? "chase" : "scatter";
+      assert.equal(state.ghostMode, mode);
+      state.ghosts.forEach((ghost, ghostIndex) => {
+        assert.equal(ghost.state, mode);
+        // Reversing leaves -0 behind, so compare with === rather than
+        // deepEqual.
+        const { dir } = placements[ghostIndex];
+        assert.ok(
+          ghost.dir.x === -dir.x && ghost.dir.y === -dir.y,
+          `${ghost.id} still heads ${JSON.stringify(ghost.dir)} after switch ${index}`,
+        );
+      });
+    }
+  });
+});
+
+// A tunnel along row 3. The short way between its two ends is through the
+// tunnel, not along the row.
+const tunnel = parseLevel(
+  [
+    "#########",
+    "#.......#",
+    "#.#####.#",
+    "T...P...T",
+    "#.##.##.#",
+    "#.##=##.#",
+    "#.#GGG#.#",
+    "#.#####.#",
+    "#.......#",
+    "#########",
+  ],
+  {
+    id: "tunnel-test",
+    name: "Tunnel test",
+    fruitThresholds: [5, 10],
+    tunnelRows: [3],
+    difficulty: { releaseDelays: [600, 600, 600, 600] },
+  },
+);
+const LEFT = { x: -1, y: 0 };
+
+describe("tunnels", () => {
+  test("Pac-Man leaves by one edge and comes back in at the other", () => {
+    const state = createGameState([tunnel], 1, 1);
+    state.player.x = 1.5;
+    state.player.y = 3.5;
+    state.player.dir = { ...LEFT };
+    const ticks = Math.round(0.5 / FIXED_DT);
+    for (let tick = 0; tick < ticks; tick += 1) {
+      step(state);
+    }
+    // Three tiles left of column 1, at full speed.
+    assert.ok(Math.abs(state.player.x - (1.5 - 3 + tunnel.width)) < 1e-9);
+    assert.equal(state.player.y, 3.5);
+    assert.deepEqual(state.player.dir, LEFT);
+  });
+
+  test("smart ghosts route through the tunnel when it is shorter", () => {
+    const state = createGameState([tunnel], 1, 1);
+    const ghost = state.ghosts[0];
+    loose(ghost, 1, 3);
+    ghost.scatterTarget = { col: 7, row: 3 };
+    assert.deepEqual(inspectGhost(state, ghost).path, [
+      { col: 1, row: 3 },
+      { col: 0, row: 3 },
+      { col: 8, row: 3 },
+      { col: 7, row: 3 },
+    ]);
+    step(state);
+    assert.deepEqual(ghost.dir, LEFT);
+  });
+
+  test("ghosts slow to half speed on tunnel tiles, eyes do not", () => {
+    // How far a ghost heading left from x on row 3 moves in one tick, as a
+    // share of its full step. Starting between tile centers, it never turns.
+    const shareOfStep = (x: number, ghostState: "scatter" | "eaten") => {
+      const state = createGameState([tunnel], 1, 1);
+      const ghost = state.ghosts[0];
+      loose(ghost, 0, 3);
+      Object.assign(ghost, { x, dir: { ...LEFT }, state: ghostState });
+      step(state);
+      return (x - ghost.x) / (ghost.speed * FIXED_DT);
+    };
+    assert.ok(Math.abs(shareOfStep(2.8, "scatter") - 1) < 1e-9);
+    assert.ok(Math.abs(shareOfStep(0.8, "scatter") - 0.5) < 1e-9);
+    assert.ok(Math.abs(shareOfStep(0.8, "eaten") - 1) < 1e-9);
+  });
+});
+
+// Waits out any "Ready!" countdown, then lets a ghost catch Pac-Man and
+// runs the death through. Returns the events raised on the way.
+function loseLife(state: GameState, ghost = state.ghosts[0]) {
+  const events: GameEvent[] = [];
+  const onEvent = (event: GameEvent) => events.push(event);
+  for (let tick = 0; tick < READY_DURATION / FIXED_DT + 1; tick += 1) {
+    if (state.status === "playing") {
+      break;
+    }
+    step(state, { direction: null }, onEvent);
+  }
+  ghost.state = "chase";
+  ghost.x = state.player.x;
+  ghost.y = state.player.y;
+  step(state, { direction: null }, onEvent);
+  assert.equal(state.status, "dying");
+  for (let tick = 0; tick < DEATH_DURATION / FIXED_DT + 1; tick += 1) {
+    step(state, { direction: null }, onEvent);
+  }
+  return events;
+}
+
+describe("two players", () => {
+  test("the board passes to the other player after a death", () => {
+    const state = createGameState([crossroads], 1, 1, "smart", 2);
+    for (let tick = 0; tick < 0.5 / FIXED_DT; tick += 1) {
+      step(state, { direction: RIGHT });
+    }
+    const eaten = crossroads.pelletCount - state.pelletCount;
+    assert.ok(eaten > 0);
+    const score = state.score;
+
+    const events = loseLife(state);
+    assert.deepEqual(
+      events.filter((event) => event.type === "playerChanged"),
+      [{ type: "playerChanged", player: 1, previous: 0 }],
+    );
+    assert.equal(state.activePlayer, 1);
+    assert.equal(state.status, "ready");
+    assert.equal(state.score, 0);
+    assert.equal(state.lives, 3);
+    assert.equal(state.pelletCount, crossroads.pelletCount);
+    assert.equal(state.otherPlayer?.player, 0);
+    assert.equal(state.otherPlayer?.score, score);
+    assert.equal(state.otherPlayer?.lives, 2);
+
+    // Player one gets back the board they left.
+    loseLife(state);
+    assert.equal(state.activePlayer, 0);
+    assert.equal(state.score, score);
+    assert.equal(state.lives, 2);
+    assert.equal(state.pelletCount, crossroads.pelletCount - eaten);
+    assert.equal(state.otherPlayer?.lives, 2);
+  });
+
+  test("the game is over once both players are out of lives", () => {
+    const state = createGameState([crossroads], 1, 1, "smart", 2);
+    state.lives = 1;
+    state.otherPlayer!.lives = 2;
+
+    loseLife(state);
+    assert.equal(state.activePlayer, 1);
+    // Player one is out, so player two keeps the board after a death.
+    const events = loseLife(state);
+    assert.ok(!events.some((event) => event.type === "playerChanged"));
+    assert.equal(state.activePlayer, 1);
+    assert.equal(state.lives, 1);
+
+    loseLife(state);
+    assert.equal(state.lives, 0);
+    assert.equal(state.otherPlayer?.lives, 0);
+    assert.equal(state.status, "gameover");
+  });
+});
+
+describe("versus", () => {
+  test("the player's ghost scores for each catch, the others do not", () => {
+    const state = createGameState([crossroads], 1, 1, "smart", 1, "blinky");
+    const [blinky, pinky] = state.ghosts;
+    assert.ok(blinky.controlled && !pinky.controlled);
+
+    const events = loseLife(state, blinky);
+    assert.deepEqual(
+      events.filter((event) => event.type === "ghostPlayerScored"),
+      [{ type: "ghostPlayerScored", ghostId: "blinky", points: 1000, score: 1000 }],
+    );
+    assert.equal(state.ghostScore, 1000);
+    assert.equal(state.score, 0);
+
+    assert.ok(!loseLife(state, pinky).some((event) => event.type === "ghostPlayerScored"));
+    assert.equal(state.ghostScore, 1000);
+
+    // The ghost's score carries over the round resets to the end.
+    loseLife(state, blinky);
+    assert.equal(state.status, "gameover");
+    assert.equal(state.ghostScore, 2000);
+  });
+});
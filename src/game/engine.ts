@@ -0,0 +1,1650 @@
+import type { GameEvent, GameEventListener } from "./events";
+import type { LevelData, LevelDifficulty, TileCoord } from "./levels";
+import { createSeed, nextRandom } from "./random";
+
+export type Direction = { x: number; y: number };
+export type GameStatus =
+  | "playing"
+  | "dying"
+  | "cleared"
+  | "paused"
+  | "ready"
+  | "gameover";
+// Pause and resume go through step() like turns so replays reproduce them.
+export type GameCommand = "pause" | "resume";
+export type GhostMode = "scatter" | "chase";
+// "smart" ghosts follow the shortest path to their target and may reverse at
+// any tile. "arcade" ghosts only decide at intersections, never reverse on
+// their own and pick the neighbouring tile closest to the target.
+export type GhostMovement = "smart" | "arcade";
+export type GhostState =
+  | "pen"
+  | "exiting"
+  | GhostMode
+  | "frightened"
+  | "eaten";
+
+export type FruitKind =
+  | "cherry"
+  | "strawberry"
+  | "orange"
+  | "apple"
+  | "melon"
+  | "galaxian"
+  | "bell"
+  | "key";
+
+export interface FruitType {
+  kind: FruitKind;
+  value: number;
+}
+
+export interface Fruit extends FruitType {
+  col: number;
+  row: number;
+  // Seconds left before the fruit disappears uneaten.
+  timer: number;
+}
+
+export interface ScorePopup {
+  x: number;
+  y: number;
+  value: number;
+  timer: number;
+}
+
+export interface Player {
+  x: number;
+  y: number;
+  dir: Direction;
+  // A buffered turn, taken as soon as Pac-Man is close enough to the center
+  // of a tile where it fits.
+  nextDir: Direction;
+  // Seconds left before the buffered turn is dropped.
+  turnTimer: number;
+  speed: number;
+}
+
+export interface Ghost {
+  id: string;
+  color: string;
+  x: number;
+  y: number;
+  dir: Direction;
+  speed: number;
+  state: GhostState;
+  releaseAt: number;
+  path: TileCoord[];
+  scatterTarget: TileCoord;
+  home: TileCoord;
+  // Set on the ghost a second player steers in versus mode. It skips the AI
+  // while roaming but still leaves and re-enters the pen on its own.
+  controlled: boolean;
+  // The controlled ghost's buffered turn, taken at the next tile center
+  // where it fits.
+  nextDir: Direction;
+}
+
+// Where a ghost is heading and why, for debug overlays.
+export interface GhostInsight {
+  tile: TileCoord;
+  // Null while the ghost wanders at random (frightened), waits in the pen or
+  // is steered by a player.
+  target: TileCoord | null;
+  // The planned route from the ghost's tile, ending at the target.
+  path: TileCoord[];
+  // Seconds until the ghost leaves the pen; null once it has left.
+  releaseIn: number | null;
+}
+
+// Everything that belongs to one player of a two-player game. The waiting
+// player's progress is parked here while the other one plays.
+export interface PlayerProgress {
+  // 0 for player one, 1 for player two.
+  player: number;
+  score: number;
+  lives: number;
+  extraLifeAwarded: boolean;
+  levelNumber: number;
+  pellets: boolean[][];
+  powerPellets: boolean[][];
+  pelletCount: number;
+  fruitsSpawned: number;
+}
+
+export interface GameState {
+  layout: string[][];
+  pellets: boolean[][];
+  powerPellets: boolean[][];
+  pelletCount: number;
+  score: number;
+  lives: number;
+  extraLifeAwarded: boolean;
+  levelNumber: number;
+  difficulty: LevelDifficulty;
+  ghostMovement: GhostMovement;
+  status: GameStatus;
+  elapsed: number;
+  tick: number;
+  seed: number;
+  rngState: number;
+  deathTimer: number;
+  intermissionTimer: number;
+  readyTimer: number;
+  // What the game returns to once the post-pause countdown ends.
+  resumeStatus: GameStatus;
+  frightenedTimer: number;
+  ghostCombo: number;
+  fruit: Fruit | null;
+  // Fruits that have appeared so far this level, eaten or not.
+  fruitsSpawned: number;
+  scorePopups: ScorePopup[];
+  ghostMode: GhostMode;
+  modeSchedule: number[];
+  modeIndex: number;
+  modeTimer: number;
+  mazes: LevelData[];
+  level: LevelData;
+  player: Player;
+  ghosts: Ghost[];
+  playerCount: number;
+  // Which player the score, lives, level and pellets above belong to.
+  activePlayer: number;
+  // The other player in a two-player game, or null in a one-player game.
+  otherPlayer: PlayerProgress | null;
+  // Id of the ghost steered by the versus player, or null when the AI
+  // drives all four.
+  versusGhost: string | null;
+  // Points the versus player has earned by catching Pac-Man.
+  ghostScore: number;
+  // Events raised during the current tick, handed to the listener by step().
+  events: GameEvent[];
+}
+
+export interface StepInput {
+  // A buffered turn for Pac-Man, or null to keep the current one.
+  direction: Direction | null;
+  // A buffered turn for the versus ghost.
+  ghostDirection?: Direction | null;
+  command?: GameCommand;
+}
+
+export interface FixedStepClock {
+  accumulator: number;
+}
+
+// The simulation always advances in steps of exactly this many seconds so
+// that a seed and an input sequence fully determine the outcome.
+export const FIXED_DT = 1 / 60;
+// Long frames (a backgrounded tab, a debugger pause) are capped so the loop
+// never tries to catch up on seconds of simulation at once.
+const MAX_FRAME_TIME = 0.25;
+const NO_INPUT: StepInput = { direction: null };
+
+const DIR_VECTORS: Direction[] = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 },
+];
+// Tiles of an arcade ghost's route drawn by the debug overlay.
+const ARCADE_PROJECTION_LENGTH = 12;
+// The arcade breaks distance ties in this order.
+const ARCADE_DIRECTION_ORDER: Direction[] = [
+  { x: 0, y: -1 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 1, y: 0 },
+];
+
+// Each entry applies from its level until the next entry takes over.
+const DIFFICULTY_TABLE: { fromLevel: number; difficulty: LevelDifficulty }[] = [
+  {
+    fromLevel: 1,
+    difficulty: {
+      playerSpeed: 6,
+      ghostSpeed: 4.4,
+      frightenedSpeed: 2.6,
+      frightenedDuration: 7,
+      releaseDelays: [0, 3, 6, 9],
+      modeWaves: [7, 20, 7, 20, 5, 20, 5, Infinity],
+    },
+  },
+  {
+    fromLevel: 2,
+    difficulty: {
+      playerSpeed: 6.4,
+      ghostSpeed: 5,
+      frightenedSpeed: 2.9,
+      frightenedDuration: 5,
+      releaseDelays: [0, 2.5, 5, 7.5],
+      modeWaves: [7, 20, 7, 20, 5, 1033, 1 / 60, Infinity],
+    },
+  },
+  {
+    fromLevel: 3,
+    difficulty: {
+      playerSpeed: 6.4,
+      ghostSpeed: 5,
+      frightenedSpeed: 2.9,
+      frightenedDuration: 4,
+      releaseDelays: [0, 2, 4, 6],
+      modeWaves: [7, 20, 7, 20, 5, 1033, 1 / 60, Infinity],
+    },
+  },
+  {
+    fromLevel: 5,
+    difficulty: {
+      playerSpeed: 7,
+      ghostSpeed: 5.6,
+      frightenedSpeed: 3.2,
+      frightenedDuration: 3,
+      releaseDelays: [0, 1.5, 3, 4.5],
+      modeWaves: [5, 20, 5, 20, 5, 1037, 1 / 60, Infinity],
+    },
+  },
+  {
+    fromLevel: 9,
+    difficulty: {
+      playerSpeed: 7,
+      ghostSpeed: 5.8,
+      frightenedSpeed: 3.2,
+      frightenedDuration: 1.5,
+      releaseDelays: [0, 1, 2, 3],
+      modeWaves: [5, 20, 5, 20, 5, 1037, 1 / 60, Infinity],
+    },
+  },
+  {
+    fromLevel: 17,
+    difficulty: {
+      playerSpeed: 7,
+      ghostSpeed: 5.8,
+      frightenedSpeed: 3.2,
+      frightenedDuration: 0,
+      releaseDelays: [0, 1, 2, 3],
+      modeWaves: [5, 20, 5, 20, 5, 1037, 1 / 60, Infinity],
+    },
+  },
+];
+
+const FRUIT_TABLE: { fromLevel: number; fruit: FruitType }[] = [
+  { fromLevel: 1, fruit: { kind: "cherry", value: 100 } },
+  { fromLevel: 2, fruit: { kind: "strawberry", value: 300 } },
+  { fromLevel: 3, fruit: { kind: "orange", value: 500 } },
+  { fromLevel: 5, fruit: { kind: "apple", value: 700 } },
+  { fromLevel: 7, fruit: { kind: "melon", value: 1000 } },
+  { fromLevel: 9, fruit: { kind: "galaxian", value: 2000 } },
+  { fromLevel: 11, fruit: { kind: "bell", value: 3000 } },
+  { fromLevel: 13, fruit: { kind: "key", value: 5000 } },
+];
+
+export const GHOST_IDS = ["blinky", "pinky", "inky", "clyde"];
+const GHOST_COLORS = ["#ff0000", "#ffb8ff", "#00ffff", "#ffb847"];
+
+const EATEN_SPEED = 9;
+const TUNNEL_SPEED_SCALE = 0.5;
+export const FRIGHTENED_FLASH_TIME = 2;
+const GHOST_EAT_SCORES = [200, 400, 800, 1600];
+// Awarded to the versus player each time their ghost catches Pac-Man.
+const GHOST_CATCH_SCORE = 1000;
+
+const FRUIT_DURATION = 9.5;
+const FRUIT_EAT_DISTANCE = 0.5;
+export const SCORE_POPUP_DURATION = 1.5;
+
+const STARTING_LIVES = 3;
+const EXTRA_LIFE_SCORE = 10000;
+export const DEATH_DURATION = 1.6;
+export const READY_DURATION = 3;
+const INTERMISSION_DURATION = 3;
+const LEVELS_PER_MAZE = 2;
+
+const EPSILON = 0.05;
+// How far before or after a tile center, in tiles, Pac-Man may take a
+// perpendicular turn. He then cuts the corner diagonally until he is back on
+// the center line, as in the arcade.
+export const CORNERING_WINDOW = 0.3;
+// Positions are sums of floating-point steps, so the window's edge gets a
+// little slack: 13.8 - 13.5 comes out just above 0.3.
+const CORNERING_SLACK = 1e-9;
+// A buffered turn that has not fitted anywhere after this long is dropped,
+// so a stale key press cannot fire several tiles later.
+export const TURN_BUFFER_TIME = 0.5;
+const ENTITY_RADIUS = 0.4;
+// Largest distance an entity may travel per sub-step without skipping the
+// tile-center window checked by isAtCenter.
+const MAX_CENTER_STEP = EPSILON * 2;
+
+function cloneStringGrid(grid: string[][]): string[][] {
+  return grid.map((row) => [...row]);
+}
+
+function cloneBooleanGrid(grid: boolean[][]): boolean[][] {
+  return grid.map((row) => [...row]);
+}
+
+function emit(state: GameState, event: GameEvent) {
+  state.events.push(event);
+}
+
+function addScore(state: GameState, points: number) {
+  state.score += points;
+  emit(state, { type: "scoreChanged", score: state.score, delta: points });
+}
+
+function setStatus(state: GameState, status: GameStatus) {
+  const previous = state.status;
+  if (previous !== status) {
+    state.status = status;
+    emit(state, { type: "statusChanged", status, previous });
+  }
+}
+
+function directionsEqual(a: Direction, b: Direction): boolean {
+  return a.x === b.x && a.y === b.y;
+}
+
+function isAtCenter(coord: number): boolean {
+  return Math.abs(coord - Math.floor(coord) - 0.5) < EPSILON;
+}
+
+// True while an entity is inside the center window of its tile and has not
+// yet moved past the center. Slow movers stay inside the window for several
+// frames after turning, and must not be snapped back to the center each time.
+function isAtTileCenter(entity: { x: number; y: number; dir: Direction }) {
+  if (!isAtCenter(entity.x) || !isAtCenter(entity.y)) {
+    return false;
+  }
+  const offsetX = entity.x - Math.floor(entity.x) - 0.5;
+  const offsetY = entity.y - Math.floor(entity.y) - 0.5;
+  return offsetX * entity.dir.x + offsetY * entity.dir.y <= 0;
+}
+
+// Columns past the left or right edge continue on the opposite edge. Only
+// tunnel rows are open at both edges, so everywhere else the wrapped tile is a
+// wall and nothing passes.
+function wrapTile(layout: string[][], col: number, row: number): TileCoord {
+  const width = layout[0].length;
+  return { col: ((col % width) + width) % width, row };
+}
+
+function isWalkable(
+  layout: string[][],
+  col: number,
+  row: number,
+  allowGate: boolean,
+): boolean {
+  if (row < 0 || row >= layout.length) {
+    return false;
+  }
+  const wrapped = wrapTile(layout, col, row);
+  const tile = layout[row][wrapped.col];
+  if (tile === "#") {
+    return false;
+  }
+  if (tile === "=") {
+    return allowGate;
+  }
+  return true;
+}
+
+function canMoveFrom(
+  layout: string[][],
+  col: number,
+  row: number,
+  dir: Direction,
+  allowGate: boolean,
+): boolean {
+  if (dir.x === 0 && dir.y === 0) {
+    return true;
+  }
+  return isWalkable(layout, col + dir.x, row + dir.y, allowGate);
+}
+
+function moveEntity(
+  entity: { x: number; y: number; dir: Direction; speed: number },
+  layout: string[][],
+  dt: number,
+  allowGate: boolean,
+  speedScale = 1,
+) {
+  if (entity.dir.x === 0 && entity.dir.y === 0) {
+    return;
+  }
+
+  const step = entity.speed * speedScale * dt;
+
+  if (entity.dir.x !== 0) {
+    const nextX = entity.x + entity.dir.x * step;
+    const targetCol =
+      entity.dir.x > 0
+        ? Math.floor(nextX + ENTITY_RADIUS)
+        : Math.floor(nextX - ENTITY_RADIUS);
+    const rowTop = Math.floor(entity.y - ENTITY_RADIUS);
+    const rowBottom = Math.floor(entity.y + ENTITY_RADIUS);
+
+    if (
+      isWalkable(layout, targetCol, rowTop, allowGate) &&
+      isWalkable(layout, targetCol, rowBottom, allowGate)
+    ) {
+      entity.x = nextX;
+    } else {
+      entity.x = Math.floor(entity.x) + 0.5;
+      entity.dir = { x: 0, y: 0 };
+    }
+  } else if (entity.dir.y !== 0) {
+    const nextY = entity.y + entity.dir.y * step;
+    const targetRow =
+      entity.dir.y > 0
+        ? Math.floor(nextY + ENTITY_RADIUS)
+        : Math.floor(nextY - ENTITY_RADIUS);
+    const colLeft = Math.floor(entity.x - ENTITY_RADIUS);
+    const colRight = Math.floor(entity.x + ENTITY_RADIUS);
+
+    if (
+      isWalkable(layout, colLeft, targetRow, allowGate) &&
+      isWalkable(layout, colRight, targetRow, allowGate)
+    ) {
+      entity.y = nextY;
+    } else {
+      entity.y = Math.floor(entity.y) + 0.5;
+      entity.dir = { x: 0, y: 0 };
+    }
+  }
+
+  const width = layout[0].length;
+  entity.x = (entity.x + width) % width;
+}
+
+function difficultyForLevel(
+  levelNumber: number,
+  override: Partial<LevelDifficulty>,
+): LevelDifficulty {
+  let difficulty = DIFFICULTY_TABLE[0].difficulty;
+  for (const entry of DIFFICULTY_TABLE) {
+    if (levelNumber >= entry.fromLevel) {
+      difficulty = entry.difficulty;
+    }
+  }
+  const merged = { ...difficulty, ...override };
+  return {
+    ...merged,
+    releaseDelays: [...merged.releaseDelays],
+    modeWaves: [...merged.modeWaves],
+  };
+}
+
+export function mazeForLevel(mazes: LevelData[], levelNumber: number): LevelData {
+  const index = Math.floor((levelNumber - 1) / LEVELS_PER_MAZE);
+  return mazes[index % mazes.length];
+}
+
+export function createGameState(
+  mazes: LevelData[],
+  levelNumber = 1,
+  seed = createSeed(),
+  ghostMovement: GhostMovement = "smart",
+  playerCount = 1,
+  versusGhost: string | null = null,
+): GameState {
+  const level = mazeForLevel(mazes, levelNumber);
+  const difficulty = difficultyForLevel(levelNumber, level.difficulty);
+
+  const player: Player = {
+    x: level.playerStart.col + 0.5,
+    y: level.playerStart.row + 0.5,
+    dir: { x: 0, y: 0 },
+    nextDir: { x: 0, y: 0 },
+    turnTimer: 0,
+    speed: difficulty.playerSpeed,
+  };
+
+  const spawnPool = [...level.ghostStarts];
+  while (spawnPool.length < GHOST_IDS.length) {
+    spawnPool.push(
+      level.ghostStarts[spawnPool.length % level.ghostStarts.length],
+    );
+  }
+
+  const modeSchedule = difficulty.modeWaves;
+
+  const ghosts: Ghost[] = GHOST_IDS.map((id, index) => {
+    const spawn = spawnPool[index] ?? level.playerStart;
+    return {
+      id,
+      color: GHOST_COLORS[index],
+      x: spawn.col + 0.5,
+      y: spawn.row + 0.5,
+      dir: { x: 0, y: 0 },
+      speed: difficulty.ghostSpeed,
+      state: "pen",
+      releaseAt: difficulty.releaseDelays[index] ?? 0,
+      path: [],
+      scatterTarget: level.scatterTargets[index],
+      home: { ...spawn },
+      controlled: id === versusGhost,
+      nextDir: { x: 0, y: 0 },
+    };
+  });
+
+  // Both players start on the same level with a fresh board.
+  const otherPlayer: PlayerProgress | null =
+    playerCount > 1
+      ? {
+          player: 1,
+          score: 0,
+          lives: STARTING_LIVES,
+          extraLifeAwarded: false,
+          levelNumber,
+          pellets: cloneBooleanGrid(level.pelletTemplate),
+          powerPellets: cloneBooleanGrid(level.powerTemplate),
+          pelletCount: level.pelletCount,
+          fruitsSpawned: 0,
+        }
+      : null;
+
+  return {
+    layout: cloneStringGrid(level.baseTiles),
+    pellets: cloneBooleanGrid(level.pelletTemplate),
+    powerPellets: cloneBooleanGrid(level.powerTemplate),
+    pelletCount: level.pelletCount,
+    score: 0,
+    lives: STARTING_LIVES,
+    extraLifeAwarded: false,
+    levelNumber,
+    difficulty,
+    ghostMovement,
+    status: "playing",
+    elapsed: 0,
+    tick: 0,
+    seed,
+    rngState: seed,
+    deathTimer: 0,
+    intermissionTimer: 0,
+    readyTimer: 0,
+    resumeStatus: "playing",
+    frightenedTimer: 0,
+    ghostCombo: 0,
+    fruit: null,
+    fruitsSpawned: 0,
+    scorePopups: [],
+    ghostMode: "scatter",
+    modeSchedule,
+    modeIndex: 0,
+    modeTimer: modeSchedule[0],
+    mazes,
+    level,
+    player,
+    ghosts,
+    playerCount,
+    activePlayer: 0,
+    otherPlayer,
+    versusGhost,
+    ghostScore: 0,
+    events: [],
+  };
+}
+
+/**
+ * Every player's score, in player order.
+ */
+export function playerScores(state: GameState): number[] {
+  const scores = [state.score];
+  if (state.otherPlayer) {
+    scores[state.activePlayer] = state.score;
+    scores[state.otherPlayer.player] = state.otherPlayer.score;
+  }
+  return scores;
+}
+
+function findPath(
+  state: GameState,
+  start: TileCoord,
+  target: TileCoord,
+  allowGate: boolean,
+): TileCoord[] | null {
+  const queue: TileCoord[] = [start];
+  const parent = new Map<string, string | null>();
+  const key = (pos: TileCoord) => `${pos.col},${pos.row}`;
+  parent.set(key(start), null);
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current.col === target.col && current.row === target.row) {
+      break;
+    }
+
+    for (const dir of DIR_VECTORS) {
+      const next = wrapTile(
+        state.layout,
+        current.col + dir.x,
+        current.row + dir.y,
+      );
+      const encoded = key(next);
+      if (parent.has(encoded)) {
+        continue;
+      }
+      if (!isWalkable(state.layout, next.col, next.row, allowGate)) {
+        continue;
+      }
+      parent.set(encoded, key(current));
+      queue.push(next);
+    }
+  }
+
+  const targetKey = key(target);
+  if (!parent.has(targetKey)) {
+    return null;
+  }
+
+  const path: TileCoord[] = [];
+  let currentKey: string | null = targetKey;
+
+  while (currentKey) {
+    const [col, row] = currentKey.split(",").map((value) => Number(value));
+    path.push({ col, row });
+    currentKey = parent.get(currentKey) ?? null;
+  }
+
+  path.reverse();
+  return path;
+}
+
+function clampTargetToWalkable(state: GameState, target: TileCoord): TileCoord {
+  // Targets projected past the edge of a tunnel row land where the tunnel
+  // comes out rather than against the wall.
+  const startCol = state.level.tunnelRows.includes(target.row)
+    ? wrapTile(state.layout, target.col, target.row).col
+    : Math.min(Math.max(target.col, 0), state.level.width - 1);
+  const startRow = Math.min(
+    Math.max(target.row, 0),
+    state.level.height - 1,
+  );
+
+  if (isWalkable(state.layout, startCol, startRow, false)) {
+    return { col: startCol, row: startRow };
+  }
+
+  const start = { col: startCol, row: startRow };
+  const visited = new Set<string>();
+  const queue: TileCoord[] = [start];
+  const encode = (pos: TileCoord) => `${pos.col},${pos.row}`;
+  visited.add(encode(start));
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (isWalkable(state.layout, current.col, current.row, false)) {
+      return current;
+    }
+    for (const dir of DIR_VECTORS) {
+      let next = {
+        col: current.col + dir.x,
+        row: current.row + dir.y,
+      };
+      if (state.level.tunnelRows.includes(next.row)) {
+        next = wrapTile(state.layout, next.col, next.row);
+      }
+      if (
+        next.col < 0 ||
+        next.col >= state.level.width ||
+        next.row < 0 ||
+        next.row >= state.level.height
+      ) {
+        continue;
+      }
+      const encoded = encode(next);
+      if (visited.has(encoded)) {
+        continue;
+      }
+      visited.add(encoded);
+      queue.push(next);
+    }
+  }
+
+  return {
+    col: Math.floor(state.player.x),
+    row: Math.floor(state.player.y),
+  };
+}
+
+function determineGhostTarget(state: GameState, ghost: Ghost): TileCoord {
+  const player = state.player;
+  const playerTile = {
+    col: Math.floor(player.x),
+    row: Math.floor(player.y),
+  };
+
+  switch (ghost.id) {
+    case "pinky": {
+      return {
+        col: playerTile.col + player.dir.x * 4,
+        row: playerTile.row + player.dir.y * 4,
+      };
+    }
+    case "inky": {
+      const ahead = {
+        col: playerTile.col + player.dir.x * 2,
+        row: playerTile.row + player.dir.y * 2,
+      };
+      const blinky = state.ghosts.find((g) => g.id === "blinky");
+      if (!blinky) {
+        return ahead;
+      }
+      const blinkyTile = {
+        col: Math.floor(blinky.x),
+        row: Math.floor(blinky.y),
+      };
+      return {
+        col: blinkyTile.col + (ahead.col - blinkyTile.col) * 2,
+        row: blinkyTile.row + (ahead.row - blinkyTile.row) * 2,
+      };
+    }
+    case "clyde": {
+      const distance = Math.hypot(ghost.x - player.x, ghost.y - player.y);
+      if (distance > 6) {
+        return playerTile;
+      }
+      return ghost.scatterTarget;
+    }
+    default:
+      return playerTile;
+  }
+}
+
+/**
+ * The arcade rule: never turn back, never enter the pen gate, skip "up" on
+ * no-upward-turn tiles, and take the neighbour nearest the (unclamped)
+ * target in a straight line. In a corridor the only option is straight on,
+ * so this only makes a real choice at intersections.
+ */
+function arcadeDirection(
+  state: GameState,
+  tile: TileCoord,
+  currentDir: Direction,
+  target: TileCoord,
+): Direction {
+  const noUpward = state.level.noUpwardTurns.some(
+    (zone) => zone.col === tile.col && zone.row === tile.row,
+  );
+  let best: Direction | null = null;
+  let bestDistance = Infinity;
+  for (const dir of ARCADE_DIRECTION_ORDER) {
+    if (dir.x === -currentDir.x && dir.y === -currentDir.y) {
+      continue;
+    }
+    if (noUpward && dir.y === -1) {
+      continue;
+    }
+    const col = tile.col + dir.x;
+    const row = tile.row + dir.y;
+    if (!isWalkable(state.layout, col, row, false)) {
+      continue;
+    }
+    const distance = Math.hypot(col - target.col, row - target.row);
+    // Strictly less keeps the earlier direction on a tie.
+    if (distance < bestDistance) {
+      best = dir;
+      bestDistance = distance;
+    }
+  }
+  return best ?? reverseDirection(currentDir);
+}
+
+function randomAvailableDirection(
+  state: GameState,
+  tile: TileCoord,
+  currentDir: Direction,
+): Direction {
+  const options = DIR_VECTORS.filter((dir) => {
+    if (dir.x === -currentDir.x && dir.y === -currentDir.y) {
+      return false;
+    }
+    return isWalkable(
+      state.layout,
+      tile.col + dir.x,
+      tile.row + dir.y,
+      false,
+    );
+  });
+
+  if (options.length === 0) {
+    return { x: -currentDir.x, y: -currentDir.y };
+  }
+  const roll = nextRandom(state.rngState);
+  state.rngState = roll.seed;
+  return options[Math.floor(roll.value * options.length)];
+}
+
+// Direction from a tile to an adjacent one, treating a tunnel wrap as a
+// single step.
+function stepDirection(
+  from: TileCoord,
+  to: TileCoord,
+): Direction {
+  const wrapDelta = (delta: number) =>
+    Math.abs(delta) > 1 ? -Math.sign(delta) : delta;
+  return {
+    x: wrapDelta(to.col - from.col),
+    y: wrapDelta(to.row - from.row),
+  };
+}
+
+function reverseDirection(dir: Direction): Direction {
+  return { x: -dir.x, y: -dir.y };
+}
+
+function ghostUsesGate(ghost: Ghost): boolean {
+  return (
+    ghost.state === "pen" ||
+    ghost.state === "exiting" ||
+    ghost.state === "eaten"
+  );
+}
+
+function frightenGhosts(state: GameState) {
+  const { difficulty } = state;
+  state.frightenedTimer = difficulty.frightenedDuration;
+  state.ghostCombo = 0;
+
+  for (const ghost of state.ghosts) {
+    if (
+      ghost.state === "pen" ||
+      ghost.state === "exiting" ||
+      ghost.state === "eaten"
+    ) {
+      continue;
+    }
+    if (ghost.state !== "frightened" && !ghost.controlled) {
+      ghost.dir = reverseDirection(ghost.dir);
+    }
+    // Late levels only make the ghosts turn around.
+    if (difficulty.frightenedDuration > 0) {
+      ghost.state = "frightened";
+      ghost.speed = difficulty.frightenedSpeed;
+    }
+  }
+}
+
+function endFrightened(state: GameState) {
+  state.frightenedTimer = 0;
+  for (const ghost of state.ghosts) {
+    if (ghost.state === "frightened") {
+      ghost.state = state.ghostMode;
+      ghost.speed = state.difficulty.ghostSpeed;
+    }
+  }
+}
+
+function advanceGhostMode(state: GameState, dt: number) {
+  if (state.frightenedTimer > 0) {
+    return;
+  }
+
+  state.modeTimer -= dt;
+  while (
+    state.modeTimer <= 0 &&
+    state.modeIndex < state.modeSchedule.length - 1
+  ) {
+    state.modeIndex += 1;
+    state.modeTimer += state.modeSchedule[state.modeIndex];
+    state.ghostMode = state.modeIndex % 2 === 0 ? "scatter" : "chase";
+    emit(state, { type: "ghostModeChanged", mode: state.ghostMode });
+
+    for (const ghost of state.ghosts) {
+      if (ghost.state === "scatter" || ghost.state === "chase") {
+        ghost.state = state.ghostMode;
+        if (!ghost.controlled) {
+          ghost.dir = reverseDirection(ghost.dir);
+        }
+      }
+    }
+  }
+}
+
+function eatGhost(state: GameState, ghost: Ghost) {
+  const index = Math.min(state.ghostCombo, GHOST_EAT_SCORES.length - 1);
+  state.ghostCombo += 1;
+  emit(state, {
+    type: "ghostEaten",
+    ghostId: ghost.id,
+    points: GHOST_EAT_SCORES[index],
+  });
+  addScore(state, GHOST_EAT_SCORES[index]);
+
+  ghost.state = "eaten";
+  ghost.speed = EATEN_SPEED;
+  ghost.path =
+    findPath(
+      state,
+      { col: Math.floor(ghost.x), row: Math.floor(ghost.y) },
+      ghost.home,
+      true,
+    ) ?? [];
+}
+
+function clearBufferedTurn(player: Player) {
+  player.nextDir = { x: 0, y: 0 };
+  player.turnTimer = 0;
+}
+
+function eatPellet(state: GameState, col: number, row: number) {
+  if (!state.pellets[row]?.[col]) {
+    return;
+  }
+  state.pellets[row][col] = false;
+  if (state.powerPellets[row]?.[col]) {
+    state.powerPellets[row][col] = false;
+    emit(state, { type: "powerPelletEaten", col, row });
+    addScore(state, 50);
+    frightenGhosts(state);
+  } else {
+    emit(state, { type: "pelletEaten", col, row });
+    addScore(state, 10);
+  }
+  state.pelletCount = Math.max(0, state.pelletCount - 1);
+}
+
+// Turning back is always possible. Any other turn needs Pac-Man on the
+// center line of the new axis, within the cornering window of the tile
+// center on the other, and an open tile in the new direction.
+function canTakeTurn(state: GameState, tileCol: number, tileRow: number) {
+  const { player } = state;
+  const turn = player.nextDir;
+  if ((turn.x === 0 && turn.y === 0) || directionsEqual(turn, player.dir)) {
+    return false;
+  }
+  if (directionsEqual(turn, reverseDirection(player.dir))) {
+    return true;
+  }
+  const offsetX = player.x - tileCol - 0.5;
+  const offsetY = player.y - tileRow - 0.5;
+  const along = turn.x !== 0 ? offsetX : offsetY;
+  const across = turn.x !== 0 ? offsetY : offsetX;
+  return (
+    Math.abs(along) < EPSILON &&
+    Math.abs(across) <= CORNERING_WINDOW + CORNERING_SLACK &&
+    canMoveFrom(state.layout, tileCol, tileRow, turn, false)
+  );
+}
+
+// Moves Pac-Man along his direction while pulling the other coordinate back
+// to the tile's center line at the same speed.
+function cutCorner(player: Player, layout: string[][], dt: number) {
+  const step = player.speed * dt;
+  const approach = (coord: number) => {
+    const center = Math.floor(coord) + 0.5;
+    return Math.abs(center - coord) <= step
+      ? center
+      : coord + Math.sign(center - coord) * step;
+  };
+  if (player.dir.x !== 0) {
+    player.x += player.dir.x * step;
+    player.y = approach(player.y);
+  } else {
+    player.y += player.dir.y * step;
+    player.x = approach(player.x);
+  }
+  const width = layout[0].length;
+  player.x = (player.x + width) % width;
+}
+
+function isCornering(player: Player): boolean {
+  if (player.dir.x !== 0) {
+    return player.y !== Math.floor(player.y) + 0.5;
+  }
+  if (player.dir.y !== 0) {
+    return player.x !== Math.floor(player.x) + 0.5;
+  }
+  return false;
+}
+
+function updatePlayer(state: GameState, dt: number) {
+  const player = state.player;
+  // Like the ghosts, long steps are split so no tile center (or its
+  // pellet) is skipped at high speed.
+  const steps = Math.max(1, Math.ceil((player.speed * dt) / MAX_CENTER_STEP));
+  for (let i = 0; i < steps; i += 1) {
+    stepPlayer(state, dt / steps);
+  }
+
+  if (player.nextDir.x !== 0 || player.nextDir.y !== 0) {
+    player.turnTimer -= dt;
+    if (player.turnTimer <= 0) {
+      clearBufferedTurn(player);
+    }
+  }
+}
+
+function stepPlayer(state: GameState, dt: number) {
+  const player = state.player;
+  const tileCol = Math.floor(player.x);
+  const tileRow = Math.floor(player.y);
+
+  if (canTakeTurn(state, tileCol, tileRow)) {
+    const turningBack = directionsEqual(
+      player.nextDir,
+      reverseDirection(player.dir),
+    );
+    player.dir = { ...player.nextDir };
+    clearBufferedTurn(player);
+    // A corner taken early never passes the exact center, so its pellet is
+    // eaten as the turn starts.
+    if (!turningBack) {
+      eatPellet(state, tileCol, tileRow);
+    }
+  }
+
+  if (isAtTileCenter(player)) {
+    player.x = tileCol + 0.5;
+    player.y = tileRow + 0.5;
+    if (!canMoveFrom(state.layout, tileCol, tileRow, player.dir, false)) {
+      player.dir = { x: 0, y: 0 };
+    }
+  }
+
+  if (isCornering(player)) {
+    cutCorner(player, state.layout, dt);
+  } else {
+    moveEntity(player, state.layout, dt, false);
+  }
+
+  if (isAtCenter(player.x) && isAtCenter(player.y)) {
+    eatPellet(state, Math.floor(player.x), Math.floor(player.y));
+  }
+}
+
+export function fruitForLevel(levelNumber: number): FruitType {
+  let fruit = FRUIT_TABLE[0].fruit;
+  for (const entry of FRUIT_TABLE) {
+    if (levelNumber >= entry.fromLevel) {
+      fruit = entry.fruit;
+    }
+  }
+  return { ...fruit };
+}
+
+function updateFruit(state: GameState, dt: number) {
+  const { level } = state;
+  const eaten = level.pelletCount - state.pelletCount;
+  const threshold = level.fruitThresholds[state.fruitsSpawned];
+  if (threshold !== undefined && eaten >= threshold) {
+    state.fruitsSpawned += 1;
+    state.fruit = {
+      ...fruitForLevel(state.levelNumber),
+      col: level.fruitSpawn.col,
+      row: level.fruitSpawn.row,
+      timer: FRUIT_DURATION,
+    };
+  }
+
+  const { fruit, player } = state;
+  if (!fruit) {
+    return;
+  }
+  fruit.timer -= dt;
+  if (fruit.timer <= 0) {
+    state.fruit = null;
+    return;
+  }
+
+  const x = fruit.col + 0.5;
+  const y = fruit.row + 0.5;
+  if (Math.hypot(player.x - x, player.y - y) < FRUIT_EAT_DISTANCE) {
+    emit(state, {
+      type: "fruitEaten",
+      kind: fruit.kind,
+      points: fruit.value,
+    });
+    addScore(state, fruit.value);
+    state.scorePopups.push({
+      x,
+      y,
+      value: fruit.value,
+      timer: SCORE_POPUP_DURATION,
+    });
+    state.fruit = null;
+  }
+}
+
+function updateScorePopups(state: GameState, dt: number) {
+  for (const popup of state.scorePopups) {
+    popup.timer -= dt;
+  }
+  state.scorePopups = state.scorePopups.filter((popup) => popup.timer > 0);
+}
+
+function isRoaming(ghost: Ghost): boolean {
+  return (
+    ghost.state === "chase" ||
+    ghost.state === "scatter" ||
+    ghost.state === "frightened"
+  );
+}
+
+// The versus ghost turns like Pac-Man without cornering: straight back at
+// any time, otherwise only at a tile center with an open tile ahead.
+function steerGhost(
+  state: GameState,
+  ghost: Ghost,
+  tile: TileCoord,
+  atCenter: boolean,
+) {
+  const turn = ghost.nextDir;
+  const buffered = turn.x !== 0 || turn.y !== 0;
+  if (buffered && directionsEqual(turn, reverseDirection(ghost.dir))) {
+    ghost.dir = { ...turn };
+    ghost.nextDir = { x: 0, y: 0 };
+    return;
+  }
+  if (!atCenter) {
+    return;
+  }
+  if (buffered && canMoveFrom(state.layout, tile.col, tile.row, turn, false)) {
+    ghost.dir = { ...turn };
+    ghost.nextDir = { x: 0, y: 0 };
+  } else if (!canMoveFrom(state.layout, tile.col, tile.row, ghost.dir, false)) {
+    ghost.dir = { x: 0, y: 0 };
+  }
+}
+
+function updateGhost(state: GameState, ghost: Ghost, dt: number) {
+  // Fast movers (returning eyes in particular) are split into sub-steps so
+  // they never jump over a tile center where they need to turn.
+  const steps = Math.max(1, Math.ceil((ghost.speed * dt) / MAX_CENTER_STEP));
+  for (let i = 0; i < steps; i += 1) {
+    stepGhost(state, ghost, dt / steps);
+  }
+}
+
+function stepGhost(state: GameState, ghost: Ghost, dt: number) {
+  const tileCol = Math.floor(ghost.x);
+  const tileRow = Math.floor(ghost.y);
+  const ghostTile = { col: tileCol, row: tileRow };
+  const atCenter = isAtTileCenter(ghost);
+
+  if (atCenter) {
+    ghost.x = tileCol + 0.5;
+    ghost.y = tileRow + 0.5;
+  }
+
+  if (ghost.state === "pen" && state.elapsed >= ghost.releaseAt) {
+    ghost.state = "exiting";
+    emit(state, { type: "ghostReleased", ghostId: ghost.id });
+    const path =
+      findPath(state, { col: tileCol, row: tileRow }, state.level.exitTile, true) ??
+      [];
+    ghost.path = path;
+  }
+
+  if (ghost.controlled && isRoaming(ghost)) {
+    steerGhost(state, ghost, ghostTile, atCenter);
+  } else if (ghost.state === "exiting" && atCenter) {
+    if (tileCol === state.level.exitTile.col && tileRow === state.level.exitTile.row) {
+      ghost.state = state.ghostMode;
+      ghost.path = [];
+    } else {
+      if (ghost.path.length <= 1) {
+        const path =
+          findPath(
+            state,
+            { col: tileCol, row: tileRow },
+            state.level.exitTile,
+            true,
+          ) ?? [];
+        ghost.path = path;
+      }
+      if (ghost.path.length > 1) {
+        const nextStep = ghost.path[1];
+        ghost.path.shift();
+        ghost.dir = stepDirection(ghostTile, nextStep);
+      }
+    }
+  } else if (ghost.state === "eaten" && atCenter) {
+    if (tileCol === ghost.home.col && tileRow === ghost.home.row) {
+      ghost.state = "exiting";
+      ghost.speed = state.difficulty.ghostSpeed;
+      ghost.path =
+        findPath(
+          state,
+          { col: tileCol, row: tileRow },
+          state.level.exitTile,
+          true,
+        ) ?? [];
+    } else {
+      const start = ghost.path[0];
+      if (!start || start.col !== tileCol || start.row !== tileRow) {
+        ghost.path =
+          findPath(state, { col: tileCol, row: tileRow }, ghost.home, true) ??
+          [];
+      }
+      if (ghost.path.length > 1) {
+        const nextStep = ghost.path[1];
+        ghost.path.shift();
+        ghost.dir = stepDirection(ghostTile, nextStep);
+      }
+    }
+  } else if (ghost.state === "frightened" && atCenter) {
+    ghost.dir = randomAvailableDirection(
+      state,
+      { col: tileCol, row: tileRow },
+      ghost.dir,
+    );
+  } else if (
+    (ghost.state === "chase" || ghost.state === "scatter") &&
+    atCenter &&
+    state.ghostMovement === "arcade"
+  ) {
+    ghost.dir = arcadeDirection(
+      state,
+      ghostTile,
+      ghost.dir,
+      ghost.state === "scatter"
+        ? ghost.scatterTarget
+        : determineGhostTarget(state, ghost),
+    );
+  } else if (
+    (ghost.state === "chase" || ghost.state === "scatter") &&
+    atCenter
+  ) {
+    const target = clampTargetToWalkable(
+      state,
+      ghost.state === "scatter"
+        ? ghost.scatterTarget
+        : determineGhostTarget(state, ghost),
+    );
+    const path =
+      findPath(state, { col: tileCol, row: tileRow }, target, false) ?? [];
+    if (path.length > 1) {
+      const nextStep = path[1];
+      ghost.dir = stepDirection(ghostTile, nextStep);
+    } else {
+      ghost.dir = randomAvailableDirection(
+        state,
+        { col: tileCol, row: tileRow },
+        ghost.dir,
+      );
+    }
+  }
+
+  const inTunnel =
+    ghost.state !== "eaten" && state.layout[tileRow]?.[tileCol] === "T";
+  moveEntity(
+    ghost,
+    state.layout,
+    dt,
+    ghostUsesGate(ghost),
+    inTunnel ? TUNNEL_SPEED_SCALE : 1,
+  );
+}
+
+/**
+ * Recomputes a ghost's target and route the way stepGhost() would, without
+ * touching the state. Chase and scatter routes are not stored on the ghost,
+ * so they are rebuilt here from its current tile.
+ */
+export function inspectGhost(state: GameState, ghost: Ghost): GhostInsight {
+  const tile = { col: Math.floor(ghost.x), row: Math.floor(ghost.y) };
+  const insight: GhostInsight = { tile, target: null, path: [], releaseIn: null };
+
+  switch (ghost.state) {
+    case "pen":
+      insight.releaseIn = Math.max(0, ghost.releaseAt - state.elapsed);
+      break;
+    case "exiting":
+      insight.target = state.level.exitTile;
+      insight.path = ghost.path;
+      break;
+    case "eaten":
+      insight.target = ghost.home;
+      insight.path = ghost.path;
+      break;
+    case "chase":
+    case "scatter": {
+      if (ghost.controlled) {
+        break;
+      }
+      const target =
+        ghost.state === "scatter"
+          ? ghost.scatterTarget
+          : determineGhostTarget(state, ghost);
+      if (state.ghostMovement === "arcade") {
+        insight.target = target;
+        insight.path = projectArcadePath(state, tile, ghost.dir, target);
+      } else {
+        insight.target = clampTargetToWalkable(state, target);
+        insight.path = findPath(state, tile, insight.target, false) ?? [];
+      }
+      break;
+    }
+  }
+  return insight;
+}
+
+// Arcade ghosts have no route, only the next turn, so the route shown is
+// the turns they would take if the target stayed put.
+function projectArcadePath(
+  state: GameState,
+  start: TileCoord,
+  startDir: Direction,
+  target: TileCoord,
+): TileCoord[] {
+  const path = [start];
+  let tile = start;
+  let dir = startDir;
+  while (
+    path.length <= ARCADE_PROJECTION_LENGTH &&
+    (tile.col !== target.col || tile.row !== target.row)
+  ) {
+    dir = arcadeDirection(state, tile, dir, target);
+    tile = wrapTile(state.layout, tile.col + dir.x, tile.row + dir.y);
+    path.push(tile);
+  }
+  return path;
+}
+
+function handleCollisions(state: GameState) {
+  if (state.status !== "playing") {
+    return;
+  }
+
+  for (const ghost of state.ghosts) {
+    const distance = Math.hypot(
+      ghost.x - state.player.x,
+      ghost.y - state.player.y,
+    );
+    if (distance >= 0.45 || ghost.state === "eaten") {
+      continue;
+    }
+    if (ghost.state === "frightened") {
+      eatGhost(state, ghost);
+    } else {
+      if (ghost.controlled) {
+        state.ghostScore += GHOST_CATCH_SCORE;
+        emit(state, {
+          type: "ghostPlayerScored",
+          ghostId: ghost.id,
+          points: GHOST_CATCH_SCORE,
+          score: state.ghostScore,
+        });
+      }
+      setStatus(state, "dying");
+      state.deathTimer = DEATH_DURATION;
+      emit(state, { type: "playerDied", livesLeft: state.lives - 1 });
+      state.player.dir = { x: 0, y: 0 };
+      clearBufferedTurn(state.player);
+      return;
+    }
+  }
+
+  if (state.pelletCount <= 0) {
+    setStatus(state, "cleared");
+    emit(state, { type: "levelCleared", levelNumber: state.levelNumber });
+    state.intermissionTimer = INTERMISSION_DURATION;
+    state.player.dir = { x: 0, y: 0 };
+  }
+}
+
+function resetRound(state: GameState) {
+  const { level } = state;
+  state.player.x = level.playerStart.col + 0.5;
+  state.player.y = level.playerStart.row + 0.5;
+  state.player.dir = { x: 0, y: 0 };
+  clearBufferedTurn(state.player);
+
+  state.ghosts.forEach((ghost, index) => {
+    ghost.x = ghost.home.col + 0.5;
+    ghost.y = ghost.home.row + 0.5;
+    ghost.dir = { x: 0, y: 0 };
+    ghost.speed = state.difficulty.ghostSpeed;
+    ghost.state = "pen";
+    ghost.releaseAt =
+      state.elapsed + (state.difficulty.releaseDelays[index] ?? 0);
+    ghost.path = [];
+    ghost.nextDir = { x: 0, y: 0 };
+  });
+
+  state.frightenedTimer = 0;
+  state.ghostCombo = 0;
+  state.fruit = null;
+  state.scorePopups = [];
+  state.ghostMode = "scatter";
+  state.modeIndex = 0;
+  state.modeTimer = state.modeSchedule[0];
+  setStatus(state, "playing");
+}
+
+function updateDeath(state: GameState, dt: number) {
+  state.deathTimer -= dt;
+  if (state.deathTimer > 0) {
+    return;
+  }
+
+  state.deathTimer = 0;
+  state.lives -= 1;
+  emit(state, { type: "livesChanged", lives: state.lives });
+  if (state.otherPlayer && state.otherPlayer.lives > 0) {
+    switchPlayer(state);
+  } else if (state.lives <= 0) {
+    setStatus(state, "gameover");
+  } else {
+    resetRound(state);
+  }
+}
+
+/**
+ * Hands the board to the waiting player after a lost life. Their level is
+ * rebuilt with their own pellets, and a "Ready!" countdown runs before play.
+ */
+function switchPlayer(state: GameState) {
+  const waiting = state.otherPlayer!;
+  const current: PlayerProgress = {
+    player: state.activePlayer,
+    score: state.score,
+    lives: state.lives,
+    extraLifeAwarded: state.extraLifeAwarded,
+    levelNumber: state.levelNumber,
+    pellets: state.pellets,
+    powerPellets: state.powerPellets,
+    pelletCount: state.pelletCount,
+    fruitsSpawned: state.fruitsSpawned,
+  };
+
+  const next = createGameState(
+    state.mazes,
+    waiting.levelNumber,
+    state.seed,
+    state.ghostMovement,
+    state.playerCount,
+    state.versusGhost,
+  );
+  next.rngState = state.rngState;
+  next.tick = state.tick;
+  next.events = state.events;
+  next.ghostScore = state.ghostScore;
+  next.score = waiting.score;
+  next.lives = waiting.lives;
+  next.extraLifeAwarded = waiting.extraLifeAwarded;
+  next.pellets = waiting.pellets;
+  next.powerPellets = waiting.powerPellets;
+  next.pelletCount = waiting.pelletCount;
+  next.fruitsSpawned = waiting.fruitsSpawned;
+  next.activePlayer = waiting.player;
+  next.otherPlayer = current;
+  next.status = "ready";
+  next.readyTimer = READY_DURATION;
+  next.resumeStatus = "playing";
+
+  const previous = state.status;
+  Object.assign(state, next);
+  emit(state, {
+    type: "playerChanged",
+    player: state.activePlayer,
+    previous: current.player,
+  });
+  emit(state, { type: "statusChanged", status: state.status, previous });
+}
+
+function advanceLevel(state: GameState) {
+  const next = createGameState(
+    state.mazes,
+    state.levelNumber + 1,
+    state.seed,
+    state.ghostMovement,
+    state.playerCount,
+    state.versusGhost,
+  );
+  next.rngState = state.rngState;
+  next.tick = state.tick;
+  next.ghostScore = state.ghostScore;
+  next.activePlayer = state.activePlayer;
+  next.otherPlayer = state.otherPlayer;
+  next.score = state.score;
+  next.lives = state.lives;
+  next.extraLifeAwarded = state.extraLifeAwarded;
+  next.events = state.events;
+  const previous = state.status;
+  Object.assign(state, next);
+  emit(state, { type: "levelStarted", levelNumber: state.levelNumber });
+  emit(state, { type: "statusChanged", status: state.status, previous });
+}
+
+function updateIntermission(state: GameState, dt: number) {
+  state.intermissionTimer -= dt;
+  if (state.intermissionTimer <= 0) {
+    advanceLevel(state);
+  }
+}
+
+function awardExtraLife(state: GameState) {
+  if (!state.extraLifeAwarded && state.score >= EXTRA_LIFE_SCORE) {
+    state.extraLifeAwarded = true;
+    state.lives += 1;
+    emit(state, { type: "extraLife", lives: state.lives });
+    emit(state, { type: "livesChanged", lives: state.lives });
+  }
+}
+
+function pauseGame(state: GameState) {
+  if (state.status === "paused" || state.status === "gameover") {
+    return;
+  }
+  // Pausing during the countdown keeps the status it was counting down to.
+  if (state.status !== "ready") {
+    state.resumeStatus = state.status;
+  }
+  setStatus(state, "paused");
+}
+
+function resumeGame(state: GameState) {
+  if (state.status !== "paused") {
+    return;
+  }
+  setStatus(state, "ready");
+  state.readyTimer = READY_DURATION;
+}
+
+function updateReady(state: GameState, dt: number) {
+  state.readyTimer -= dt;
+  if (state.readyTimer <= 0) {
+    state.readyTimer = 0;
+    setStatus(state, state.resumeStatus);
+  }
+}
+
+function updateGame(state: GameState, dt: number) {
+  if (state.status === "ready") {
+    updateReady(state, dt);
+    return;
+  }
+  if (state.status === "dying") {
+    updateDeath(state, dt);
+    return;
+  }
+  if (state.status === "cleared") {
+    updateIntermission(state, dt);
+    return;
+  }
+  if (state.status !== "playing") {
+    return;
+  }
+
+  state.elapsed += dt;
+  advanceGhostMode(state, dt);
+  if (state.frightenedTimer > 0) {
+    state.frightenedTimer -= dt;
+    if (state.frightenedTimer <= 0) {
+      endFrightened(state);
+    }
+  }
+  updateScorePopups(state, dt);
+  updatePlayer(state, dt);
+  updateFruit(state, dt);
+  for (const ghost of state.ghosts) {
+    updateGhost(state, ghost, dt);
+  }
+  handleCollisions(state);
+  awardExtraLife(state);
+}
+
+/**
+ * Advances the simulation by one fixed tick. The state is updated in place
+ * and returned for convenience. Events raised during the tick are passed to
+ * onEvent, in order, once the tick is complete.
+ */
+export function step(
+  state: GameState,
+  input: StepInput = NO_INPUT,
+  onEvent?: GameEventListener,
+): GameState {
+  if (input.command === "pause") {
+    pauseGame(state);
+  } else if (input.command === "resume") {
+    resumeGame(state);
+  }
+  if (input.direction) {
+    state.player.nextDir = { ...input.direction };
+    state.player.turnTimer = TURN_BUFFER_TIME;
+  }
+  if (input.ghostDirection) {
+    const ghost = state.ghosts.find((candidate) => candidate.controlled);
+    if (ghost) {
+      ghost.nextDir = { ...input.ghostDirection };
+    }
+  }
+  updateGame(state, FIXED_DT);
+  state.tick += 1;
+
+  const events = state.events;
+  state.events = [];
+  if (onEvent) {
+    events.forEach(onEvent);
+  }
+  return state;
+}
+
+export function createClock(): FixedStepClock {
+  return { accumulator: 0 };
+}
+
+/**
+ * Feeds one rendered frame's worth of wall-clock time into the clock and runs
+ * as many fixed ticks as it covers. The input is applied on the first tick;
+ * returns the number of ticks run so callers can keep input that was not
+ * consumed yet.
+ */
+export function advanceClock(
+  clock: FixedStepClock,
+  state: GameState,
+  frameTime: number,
+  input: StepInput = NO_INPUT,
+  onEvent?: GameEventListener,
+): number {
+  clock.accumulator += Math.min(frameTime, MAX_FRAME_TIME);
+  let ticks = 0;
+  while (clock.accumulator >= FIXED_DT) {
+    step(state, ticks === 0 ? input : NO_INPUT, onEvent);
+    clock.accumulator -= FIXED_DT;
+    ticks += 1;
+  }
+  return ticks;
+}
@@ -0,0 +1,81 @@
+import type { FruitKind, GameStatus, GhostMode } from "./engine";
+
+/**
+ * Payloads of every event the engine raises, keyed by event type. Events are
+ * collected during a tick and published, in order, when the tick completes.
+ */
+export interface GameEventMap {
+  pelletEaten: { col: number; row: number };
+  powerPelletEaten: { col: number; row: number };
+  ghostReleased: { ghostId: string };
+  ghostModeChanged: { mode: GhostMode };
+  ghostEaten: { ghostId: string; points: number };
+  // Versus mode only: the player-steered ghost caught Pac-Man.
+  ghostPlayerScored: { ghostId: string; points: number; score: number };
+  fruitEaten: { kind: FruitKind; points: number };
+  playerDied: { livesLeft: number };
+  extraLife: { lives: number };
+  livesChanged: { lives: number };
+  levelCleared: { levelNumber: number };
+  levelStarted: { levelNumber: number };
+  // Two-player games only: the board passed to the other player.
+  playerChanged: { player: number; previous: number };
+  scoreChanged: { score: number; delta: number };
+  statusChanged: { status: GameStatus; previous: GameStatus };
+}
+
+export type GameEventType = keyof GameEventMap;
+
+export type GameEventOf<K extends GameEventType> = { type: K } & GameEventMap[K];
+
+export type GameEvent = { [K in GameEventType]: GameEventOf<K> }[GameEventType];
+
+export type GameEventListener = (event: GameEvent) => void;
+
+export interface GameEventBus {
+  // Both subscribe methods return a function that removes the handler.
+  on<K extends GameEventType>(
+    type: K,
+    handler: (event: GameEventOf<K>) => void,
+  ): () => void;
+  onAny(handler: GameEventListener): () => void;
+  // Does not use `this`, so it can be handed straight to step() as a
+  // listener.
+  emit: GameEventListener;
+}
+
+export function createEventBus(): GameEventBus {
+  const handlers = new Map<GameEventType | "*", Set<GameEventListener>>();
+
+  const subscribe = (key: GameEventType | "*", handler: GameEventListener) => {
+    let set = handlers.get(key);
+    if (!set) {
+      set = new Set();
+      handlers.set(key, set);
+    }
+    set.add(handler);
+    return () => {
+      set.delete(handler);
+    };
+  };
+
+  return {
+    on(type, handler) {
+      // Handlers are stored by type, so this one only ever sees events of
+      // type K.
+      return subscribe(type, handler as unknown as GameEventListener);
+    },
+    onAny(handler) {
+      return subscribe("*", handler);
+    },
+    emit(event) {
+      // Copied so handlers can unsubscribe while the event is delivered.
+      for (const key of [event.type, "*"] as const) {
+        const set = handlers.get(key);
+        if (set) {
+          [...set].forEach((handler) => handler(event));
+        }
+      }
+    },
+  };
+}
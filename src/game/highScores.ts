@@ -0,0 +1,85 @@
+import { readStoredJson, writeStoredJson } from "./storage";
+
+export interface HighScoreEntry {
+  score: number;
+  initials: string;
+  level: number;
+  // ISO-8601 timestamp of when the run ended.
+  date: string;
+}
+
+/**
+ * Persistence for the high-score table. Asynchronous so that a server-backed
+ * store can replace the local one without touching callers.
+ */
+export interface HighScoreStore {
+  load(): Promise<HighScoreEntry[]>;
+  save(entries: HighScoreEntry[]): Promise<void>;
+}
+
+export const HIGH_SCORE_LIMIT = 10;
+export const INITIALS_LENGTH = 3;
+
+const STORAGE_KEY = "pacman.highScores.v1";
+
+function isHighScoreEntry(value: unknown): value is HighScoreEntry {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.score === "number" &&
+    typeof entry.initials === "string" &&
+    typeof entry.level === "number" &&
+    typeof entry.date === "string"
+  );
+}
+
+function rankEntries(entries: HighScoreEntry[]): HighScoreEntry[] {
+  // Array.prototype.sort is stable, so earlier entries keep their place on
+  // ties.
+  return [...entries]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, HIGH_SCORE_LIMIT);
+}
+
+export function normalizeInitials(value: string): string {
+  return value
+    .toUpperCase()
+    .replace(/[^A-Z]/g, "")
+    .slice(0, INITIALS_LENGTH);
+}
+
+export function qualifiesForHighScore(
+  entries: HighScoreEntry[],
+  score: number,
+): boolean {
+  if (score <= 0) {
+    return false;
+  }
+  if (entries.length < HIGH_SCORE_LIMIT) {
+    return true;
+  }
+  return score > entries[entries.length - 1].score;
+}
+
+export function insertHighScore(
+  entries: HighScoreEntry[],
+  entry: HighScoreEntry,
+): HighScoreEntry[] {
+  return rankEntries([...entries, entry]);
+}
+
+export function createLocalHighScoreStore(storage: Storage): HighScoreStore {
+  return {
+    async load() {
+      const parsed = readStoredJson(storage, STORAGE_KEY);
+      return Array.isArray(parsed)
+        ? rankEntries(parsed.filter(isHighScoreEntry))
+        : [];
+    },
+    async save(entries) {
+      writeStoredJson(storage, STORAGE_KEY, rankEntries(entries));
+    },
+  };
+}
@@ -0,0 +1,250 @@
+import type { Direction } from "./engine";
+import { readStoredJson, writeStoredJson } from "./storage";
+
+export type DirectionAction = "up" | "down" | "left" | "right";
+export type InputAction = DirectionAction | "pause" | "restart";
+
+export interface InputBindings {
+  // KeyboardEvent.key values. Letters are stored in lower case.
+  keyboard: Record<InputAction, string[]>;
+  // Button indices in the browser's "standard" gamepad mapping.
+  gamepad: Record<InputAction, number[]>;
+  // How far the left stick must be pushed, from 0 to 1, to count as a turn.
+  stickDeadzone: number;
+}
+
+/**
+ * The parts of a browser Gamepad that polling reads, so input can be fed from
+ * tests or recorded data as well as navigator.getGamepads().
+ */
+export interface GamepadSnapshot {
+  buttons: readonly { pressed: boolean }[];
+  axes: readonly number[];
+}
+
+export interface GamepadPoller {
+  // Actions that were held on the previous poll, for edge detection.
+  held: Set<InputAction>;
+}
+
+export const INPUT_ACTIONS: InputAction[] = [
+  "up",
+  "down",
+  "left",
+  "right",
+  "pause",
+  "restart",
+];
+
+export const ACTION_DIRECTIONS: Record<DirectionAction, Direction> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+export const DEFAULT_INPUT_BINDINGS: InputBindings = {
+  keyboard: {
+    up: ["ArrowUp", "w"],
+    down: ["ArrowDown", "s"],
+    left: ["ArrowLeft", "a"],
+    right: ["ArrowRight", "d"],
+    pause: ["p", "Escape"],
+    restart: [" "],
+  },
+  gamepad: {
+    up: [12],
+    down: [13],
+    left: [14],
+    right: [15],
+    pause: [9],
+    restart: [0],
+  },
+  stickDeadzone: 0.5,
+};
+
+// The versus ghost is steered with IJKL on the shared keyboard. These keys
+// are fixed rather than part of InputBindings and only apply in versus games.
+export const VERSUS_GHOST_KEYS: Record<string, DirectionAction> = {
+  i: "up",
+  k: "down",
+  j: "left",
+  l: "right",
+};
+
+const STORAGE_KEY = "pacman.inputBindings.v1";
+
+export function isDirectionAction(
+  action: InputAction,
+): action is DirectionAction {
+  return action in ACTION_DIRECTIONS;
+}
+
+export function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+export function actionForKey(
+  bindings: InputBindings,
+  key: string,
+): InputAction | null {
+  const normalized = normalizeKey(key);
+  return (
+    INPUT_ACTIONS.find((action) =>
+      bindings.keyboard[action].includes(normalized),
+    ) ?? null
+  );
+}
+
+/**
+ * Binds a key to an action, taking it away from any other action so one key
+ * never triggers two things.
+ */
+export function bindKey(
+  bindings: InputBindings,
+  action: InputAction,
+  key: string,
+): InputBindings {
+  const normalized = normalizeKey(key);
+  const keyboard = { ...bindings.keyboard };
+  for (const other of INPUT_ACTIONS) {
+    keyboard[other] = keyboard[other].filter((bound) => bound !== normalized);
+  }
+  keyboard[action] = [normalized];
+  return { ...bindings, keyboard };
+}
+
+export function bindGamepadButton(
+  bindings: InputBindings,
+  action: InputAction,
+  button: number,
+): InputBindings {
+  const gamepad = { ...bindings.gamepad };
+  for (const other of INPUT_ACTIONS) {
+    gamepad[other] = gamepad[other].filter((bound) => bound !== button);
+  }
+  gamepad[action] = [button];
+  return { ...bindings, gamepad };
+}
+
+function stickAction(
+  pad: GamepadSnapshot,
+  deadzone: number,
+): DirectionAction | null {
+  const x = pad.axes[0] ?? 0;
+  const y = pad.axes[1] ?? 0;
+  if (Math.hypot(x, y) < deadzone) {
+    return null;
+  }
+  if (Math.abs(x) > Math.abs(y)) {
+    return x > 0 ? "right" : "left";
+  }
+  return y > 0 ? "down" : "up";
+}
+
+export function createGamepadPoller(): GamepadPoller {
+  return { held: new Set() };
+}
+
+/**
+ * Reads every connected pad and returns the actions that became active since
+ * the previous poll. Holding a button or the stick fires its action once.
+ */
+export function pollGamepads(
+  poller: GamepadPoller,
+  bindings: InputBindings,
+  pads: readonly (GamepadSnapshot | null)[],
+): InputAction[] {
+  const held = new Set<InputAction>();
+  for (const pad of pads) {
+    if (!pad) {
+      continue;
+    }
+    for (const action of INPUT_ACTIONS) {
+      if (
+        bindings.gamepad[action].some((button) => pad.buttons[button]?.pressed)
+      ) {
+        held.add(action);
+      }
+    }
+    const stick = stickAction(pad, bindings.stickDeadzone);
+    if (stick) {
+      held.add(stick);
+    }
+  }
+
+  const pressed = INPUT_ACTIONS.filter(
+    (action) => held.has(action) && !poller.held.has(action),
+  );
+  poller.held = held;
+  return pressed;
+}
+
+/**
+ * Index of the first pressed button on any pad, used while remapping.
+ */
+export function firstPressedButton(
+  pads: readonly (GamepadSnapshot | null)[],
+): number | null {
+  for (const pad of pads) {
+    const index = pad?.buttons.findIndex((button) => button.pressed) ?? -1;
+    if (index !== -1) {
+      return index;
+    }
+  }
+  return null;
+}
+
+function isBindingList<T>(
+  value: unknown,
+  isItem: (item: unknown) => item is T,
+): value is T[] {
+  return Array.isArray(value) && value.every(isItem);
+}
+
+function readBindings(value: unknown): InputBindings | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const data = value as Record<string, unknown>;
+  const keyboard = data.keyboard as Record<string, unknown> | undefined;
+  const gamepad = data.gamepad as Record<string, unknown> | undefined;
+  if (
+    typeof keyboard !== "object" ||
+    keyboard === null ||
+    typeof gamepad !== "object" ||
+    gamepad === null ||
+    typeof data.stickDeadzone !== "number"
+  ) {
+    return null;
+  }
+
+  const bindings = structuredClone(DEFAULT_INPUT_BINDINGS);
+  for (const action of INPUT_ACTIONS) {
+    const keys = keyboard[action];
+    const buttons = gamepad[action];
+    if (
+      !isBindingList(keys, (key): key is string => typeof key === "string") ||
+      !isBindingList(buttons, (button): button is number =>
+        Number.isInteger(button),
+      )
+    ) {
+      return null;
+    }
+    bindings.keyboard[action] = keys.map(normalizeKey);
+    bindings.gamepad[action] = buttons;
+  }
+  bindings.stickDeadzone = Math.min(0.95, Math.max(0.05, data.stickDeadzone));
+  return bindings;
+}
+
+export function loadInputBindings(storage: Storage): InputBindings {
+  return (
+    readBindings(readStoredJson(storage, STORAGE_KEY)) ??
+    structuredClone(DEFAULT_INPUT_BINDINGS)
+  );
+}
+
+export function saveInputBindings(storage: Storage, bindings: InputBindings) {
+  writeStoredJson(storage, STORAGE_KEY, bindings);
+}
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  loadLevelPack,
+  MazeValidationError,
+  parseLevel,
+  type MazeMetadata,
+} from "./levels";
+import bundledLevelPack from "./levels/bundled.json";
+
+// A small maze that passes every check. Tests break one thing at a time.
+const VALID_LAYOUT = [
+  "#########",
+  "#...P...#",
+  "#.##=##.#",
+  "#.#GGG#.#",
+  "#.#####.#",
+  "#.......#",
+  "#########",
+];
+const METADATA: MazeMetadata = {
+  id: "levels-test",
+  name: "Levels test",
+  fruitThresholds: [5, 10],
+};
+
+function withRow(row: number, line: string): string[] {
+  return VALID_LAYOUT.map((original, index) => (index === row ? line : original));
+}
+
+// The issues parseLevel() reports for a layout, or none if it parses.
+function issuesOf(layout: string[], metadata: MazeMetadata = METADATA): string[] {
+  try {
+    parseLevel(layout, metadata);
+    return [];
+  } catch (error) {
+    assert.ok(error instanceof MazeValidationError);
+    return error.issues;
+  }
+}
+
+describe("parseLevel", () => {
+  test("accepts a well-formed maze", () => {
+    const level = parseLevel(VALID_LAYOUT, METADATA);
+    assert.deepEqual(level.playerStart, { col: 4, row: 1 });
+    assert.deepEqual(level.exitTile, { col: 4, row: 1 });
+    assert.equal(level.ghostStarts.length, 3);
+    assert.equal(level.pelletCount, 19);
+    assert.deepEqual(level.tunnelRows, []);
+  });
+
+  test("scales the default fruit thresholds down to a small maze", () => {
+    const level = parseLevel(VALID_LAYOUT, { id: METADATA.id, name: METADATA.name });
+    assert.deepEqual(level.fruitThresholds, [5, 13]);
+  });
+
+  test("rejects a maze without a player spawn", () => {
+    assert.deepEqual(issuesOf(withRow(1, "#.......#")), [
+      'no player spawn ("P") found',
+    ]);
+  });
+
+  test("rejects rows of different widths", () => {
+    assert.deepEqual(issuesOf(withRow(5, "#......#")), [
+      "row 5 is 8 tiles wide, expected 9 like row 0",
+    ]);
+  });
+
+  test("rejects pellets the player cannot reach", () => {
+    assert.deepEqual(issuesOf(withRow(5, "#..#.#..#")), [
+      "1 pellet(s) unreachable from the player spawn: (4, 5)",
+    ]);
+  });
+
+  test("rejects a ghost pen without a door", () => {
+    assert.deepEqual(issuesOf(withRow(2, "#.#####.#")), [
+      'ghost pen has no door ("=")',
+    ]);
+  });
+
+  test("rejects a tunnel row open on only one edge", () => {
+    assert.deepEqual(issuesOf(withRow(5, "T.......#")), [
+      "row 5 is open on only one edge; tunnels need an opening on both sides",
+    ]);
+    const level = parseLevel(withRow(5, "T.......T"), METADATA);
+    assert.deepEqual(level.tunnelRows, [5]);
+  });
+
+  test("rejects metadata of the wrong shape before reading the layout", () => {
+    const issues = issuesOf(VALID_LAYOUT, {
+      ...METADATA,
+      tunnelRows: "5",
+      difficulty: { ghostSpeed: 1e9 },
+    } as unknown as MazeMetadata);
+    assert.equal(issues.length, 2);
+    assert.match(issues[0], /tunnelRows/);
+    assert.match(issues[1], /ghostSpeed/);
+  });
+});
+
+describe("loadLevelPack", () => {
+  test("loads the bundled pack", () => {
+    const mazes = loadLevelPack(bundledLevelPack);
+    assert.deepEqual(
+      mazes.map((maze) => maze.id),
+      bundledLevelPack.mazes.map((maze) => maze.metadata.id),
+    );
+    for (const maze of mazes) {
+      assert.ok(maze.pelletCount > maze.fruitThresholds.at(-1)!);
+    }
+  });
+
+  test("rejects a pack of another version", () => {
+    assert.throws(
+      () => loadLevelPack({ ...bundledLevelPack, version: 2 }),
+      (error) =>
+        error instanceof MazeValidationError &&
+        /unsupported level pack version 2/.test(error.issues[0]),
+    );
+  });
+});
@@ -0,0 +1,551 @@
+export interface TileCoord {
+  col: number;
+  row: number;
+}
+
+export interface LevelDifficulty {
+  playerSpeed: number;
+  ghostSpeed: number;
+  frightenedSpeed: number;
+  frightenedDuration: number;
+  releaseDelays: number[];
+  // Alternating scatter/chase durations in seconds, starting with scatter.
+  // The final chase phase lasts forever.
+  modeWaves: number[];
+}
+
+export interface MazeMetadata {
+  id: string;
+  name: string;
+  // One corner per ghost, in blinky/pinky/inky/clyde order.
+  scatterTargets?: TileCoord[];
+  fruitSpawn?: TileCoord;
+  // Pellets eaten before each bonus fruit appears, in ascending order.
+  // Defaults to 70 and 170, scaled down for mazes with fewer pellets.
+  fruitThresholds?: number[];
+  // Rows expected to wrap around. Tunnels are detected from the layout
+  // either way; listing them here also checks that they are open.
+  tunnelRows?: number[];
+  // Tiles where arcade-movement ghosts may not turn upwards while chasing
+  // or scattering, like the spots above the pen and the player spawn in the
+  // original.
+  noUpwardTurns?: TileCoord[];
+  difficulty?: Partial<LevelDifficulty>;
+}
+
+export interface MazeDefinition {
+  layout: string[];
+  metadata: MazeMetadata;
+}
+
+export interface LevelPack {
+  version: 1;
+  name: string;
+  mazes: MazeDefinition[];
+}
+
+export interface LevelData {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  baseTiles: string[][];
+  pelletTemplate: boolean[][];
+  powerTemplate: boolean[][];
+  pelletCount: number;
+  playerStart: TileCoord;
+  ghostStarts: TileCoord[];
+  exitTile: TileCoord;
+  scatterTargets: TileCoord[];
+  fruitSpawn: TileCoord;
+  fruitThresholds: number[];
+  tunnelRows: number[];
+  noUpwardTurns: TileCoord[];
+  difficulty: Partial<LevelDifficulty>;
+}
+
+export class MazeValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(mazeName: string, issues: string[]) {
+    super(
+      `Maze "${mazeName}" is invalid:\n${issues
+        .map((issue) => `  - ${issue}`)
+        .join("\n")}`,
+    );
+    this.name = "MazeValidationError";
+    this.issues = issues;
+  }
+}
+
+const LEVEL_PACK_VERSION = 1;
+const GHOST_COUNT = 4;
+// "T" marks tunnel tiles: walkable, pellet-free, and slow for ghosts.
+const TILE_CHARS = new Set(["#", ".", "o", "P", "G", "=", "T", " "]);
+const NEIGHBOUR_OFFSETS: TileCoord[] = [
+  { col: 1, row: 0 },
+  { col: -1, row: 0 },
+  { col: 0, row: 1 },
+  { col: 0, row: -1 },
+];
+// Only the first few unreachable pellets are listed to keep errors readable.
+const MAX_REPORTED_TILES = 5;
+// Fruit appears after 70 and 170 of the arcade maze's 244 pellets. Mazes
+// with too few pellets for that get the same shares of their own count.
+const DEFAULT_FRUIT_THRESHOLDS = [70, 170];
+const ARCADE_PELLET_COUNT = 244;
+// Allowed ranges for difficulty overrides. Movement is split into sub-steps
+// by distance, so an unbounded speed would stall every tick.
+const DIFFICULTY_RANGES: Record<
+  "playerSpeed" | "ghostSpeed" | "frightenedSpeed" | "frightenedDuration",
+  [number, number]
+> = {
+  playerSpeed: [0.5, 20],
+  ghostSpeed: [0.5, 20],
+  frightenedSpeed: [0.5, 20],
+  frightenedDuration: [0, 60],
+};
+const MAX_RELEASE_DELAY = 600;
+const MAX_MODE_WAVE = 3600;
+
+function defaultFruitThresholds(pelletCount: number): number[] {
+  if (pelletCount > DEFAULT_FRUIT_THRESHOLDS[DEFAULT_FRUIT_THRESHOLDS.length - 1]) {
+    return DEFAULT_FRUIT_THRESHOLDS;
+  }
+  const scaled = DEFAULT_FRUIT_THRESHOLDS.map((threshold) =>
+    Math.round((threshold * pelletCount) / ARCADE_PELLET_COUNT),
+  );
+  return scaled.filter(
+    (threshold, index) =>
+      threshold >= 1 &&
+      threshold < pelletCount &&
+      (index === 0 || threshold > scaled[index - 1]),
+  );
+}
+
+function formatTile(tile: TileCoord): string {
+  return `(${tile.col}, ${tile.row})`;
+}
+
+function floodFill(
+  tiles: string[][],
+  starts: TileCoord[],
+  allowGate: boolean,
+): boolean[][] {
+  const reached = tiles.map((row) => row.map(() => false));
+  const queue = [...starts];
+  for (const start of starts) {
+    reached[start.row][start.col] = true;
+  }
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const offset of NEIGHBOUR_OFFSETS) {
+      // Horizontal moves wrap; walled edges stop them like any other wall.
+      const width = tiles[0].length;
+      const col = (current.col + offset.col + width) % width;
+      const row = current.row + offset.row;
+      const tile = tiles[row]?.[col];
+      if (tile === undefined || reached[row][col]) {
+        continue;
+      }
+      if (tile === "#" || (tile === "=" && !allowGate)) {
+        continue;
+      }
+      reached[row][col] = true;
+      queue.push({ col, row });
+    }
+  }
+
+  return reached;
+}
+
+function defaultScatterTargets(width: number, height: number): TileCoord[] {
+  return [
+    { col: 1, row: 1 },
+    { col: width - 2, row: 1 },
+    { col: width - 2, row: height - 2 },
+    { col: 1, row: height - 2 },
+  ];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isTileCoord(value: unknown): value is TileCoord {
+  return (
+    isRecord(value) && Number.isInteger(value.col) && Number.isInteger(value.row)
+  );
+}
+
+function isNumberIn(value: unknown, min: number, max: number): boolean {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= min &&
+    value <= max
+  );
+}
+
+/**
+ * Checks the shape and ranges of every metadata field, since mazes arrive as
+ * untrusted JSON from level packs, imports and share links. Returns the
+ * problems found; checks that need the layout are left to parseLevel().
+ */
+export function validateMazeMetadata(metadata: unknown): string[] {
+  if (!isRecord(metadata)) {
+    return ["metadata must be an object"];
+  }
+  const data = metadata;
+  const issues: string[] = [];
+
+  for (const key of ["id", "name"]) {
+    if (typeof data[key] !== "string") {
+      issues.push(`metadata ${key} must be a string`);
+    }
+  }
+  for (const key of ["scatterTargets", "noUpwardTurns"]) {
+    const value = data[key];
+    if (value !== undefined && !(Array.isArray(value) && value.every(isTileCoord))) {
+      issues.push(`${key} must be a list of tiles with whole-number col and row`);
+    }
+  }
+  if (data.fruitSpawn !== undefined && !isTileCoord(data.fruitSpawn)) {
+    issues.push("fruitSpawn must be a tile with whole-number col and row");
+  }
+  for (const key of ["fruitThresholds", "tunnelRows"]) {
+    const value = data[key];
+    if (
+      value !== undefined &&
+      !(Array.isArray(value) && value.every((item) => Number.isInteger(item)))
+    ) {
+      issues.push(`${key} must be a list of whole numbers`);
+    }
+  }
+
+  const difficulty = data.difficulty;
+  if (difficulty === undefined) {
+    return issues;
+  }
+  if (!isRecord(difficulty)) {
+    issues.push("difficulty must be an object");
+    return issues;
+  }
+  for (const [key, value] of Object.entries(difficulty)) {
+    if (key in DIFFICULTY_RANGES) {
+      const [min, max] = DIFFICULTY_RANGES[key as keyof typeof DIFFICULTY_RANGES];
+      if (!isNumberIn(value, min, max)) {
+        issues.push(`difficulty ${key} must be a number from ${min} to ${max}`);
+      }
+    } else if (key === "releaseDelays") {
+      if (
+        !Array.isArray(value) ||
+        value.length > GHOST_COUNT ||
+        !value.every((delay) => isNumberIn(delay, 0, MAX_RELEASE_DELAY))
+      ) {
+        issues.push(
+          `difficulty releaseDelays must list up to ${GHOST_COUNT} delays from 0 to ${MAX_RELEASE_DELAY} seconds`,
+        );
+      }
+    } else if (key === "modeWaves") {
+      if (
+        !Array.isArray(value) ||
+        value.length === 0 ||
+        !value.every((wave) => isNumberIn(wave, 0, MAX_MODE_WAVE))
+      ) {
+        issues.push(
+          `difficulty modeWaves must list at least one duration from 0 to ${MAX_MODE_WAVE} seconds`,
+        );
+      }
+    } else {
+      issues.push(`unknown difficulty setting "${key}"`);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Parses an ASCII maze into level data. Throws a MazeValidationError listing
+ * every problem found instead of guessing at missing spawns or exits.
+ */
+export function parseLevel(
+  layout: readonly string[],
+  metadata: MazeMetadata,
+): LevelData {
+  const issues = validateMazeMetadata(metadata);
+  const fail = () => new MazeValidationError(String(metadata.name), issues);
+  if (issues.length > 0) {
+    throw fail();
+  }
+
+  if (layout.length === 0 || layout[0].length === 0) {
+    issues.push("layout is empty");
+    throw fail();
+  }
+
+  const width = layout[0].length;
+  const height = layout.length;
+  layout.forEach((line, row) => {
+    if (line.length !== width) {
+      issues.push(
+        `row ${row} is ${line.length} tiles wide, expected ${width} like row 0`,
+      );
+    }
+  });
+  if (issues.length > 0) {
+    throw fail();
+  }
+
+  const baseTiles = layout.map((line) => line.split(""));
+  const pelletTemplate = baseTiles.map((row) => row.map(() => false));
+  const powerTemplate = baseTiles.map((row) => row.map(() => false));
+  const pellets: TileCoord[] = [];
+  const ghostStarts: TileCoord[] = [];
+  const doors: TileCoord[] = [];
+  const playerStarts: TileCoord[] = [];
+
+  for (let row = 0; row < height; row += 1) {
+    for (let col = 0; col < width; col += 1) {
+      const char = baseTiles[row][col];
+      if (!TILE_CHARS.has(char)) {
+        issues.push(`unknown tile "${char}" at ${formatTile({ col, row })}`);
+        continue;
+      }
+      switch (char) {
+        case ".":
+        case "o":
+          pelletTemplate[row][col] = true;
+          powerTemplate[row][col] = char === "o";
+          pellets.push({ col, row });
+          baseTiles[row][col] = " ";
+          break;
+        case "P":
+          playerStarts.push({ col, row });
+          baseTiles[row][col] = " ";
+          break;
+        case "G":
+          ghostStarts.push({ col, row });
+          baseTiles[row][col] = " ";
+          break;
+        case "=":
+          doors.push({ col, row });
+          break;
+      }
+    }
+  }
+
+  if (playerStarts.length === 0) {
+    issues.push('no player spawn ("P") found');
+  } else if (playerStarts.length > 1) {
+    issues.push(
+      `expected one player spawn ("P"), found ${playerStarts.length} at ${playerStarts
+        .map(formatTile)
+        .join(", ")}`,
+    );
+  }
+  if (ghostStarts.length === 0) {
+    issues.push('no ghost spawns ("G") found');
+  }
+  if (ghostStarts.length > 0 && doors.length === 0) {
+    issues.push('ghost pen has no door ("=")');
+  }
+  if (pellets.length === 0) {
+    issues.push("maze has no pellets to clear");
+  }
+  if (issues.length > 0) {
+    throw fail();
+  }
+
+  const playerStart = playerStarts[0];
+  const penArea = floodFill(baseTiles, ghostStarts, false);
+  const playerArea = floodFill(baseTiles, [playerStart], false);
+
+  if (penArea[playerStart.row][playerStart.col]) {
+    issues.push(
+      "ghost pen is not enclosed: ghosts can reach the player spawn without passing a door",
+    );
+    throw fail();
+  }
+
+  const walledIn = NEIGHBOUR_OFFSETS.every((offset) => {
+    const tile = baseTiles[playerStart.row + offset.row]?.[playerStart.col + offset.col];
+    return tile === undefined || tile === "#" || tile === "=";
+  });
+  if (walledIn) {
+    issues.push(`player spawn at ${formatTile(playerStart)} is walled in on every side`);
+  }
+
+  // The exit is the tile just outside the middle door, on the side facing
+  // away from the pen.
+  const door = doors[Math.floor(doors.length / 2)];
+  let exitTile: TileCoord | null = null;
+  for (const offset of NEIGHBOUR_OFFSETS) {
+    const col = door.col + offset.col;
+    const row = door.row + offset.row;
+    if (playerArea[row]?.[col]) {
+      exitTile = { col, row };
+      break;
+    }
+  }
+  if (!exitTile) {
+    issues.push(
+      `door at ${formatTile(door)} does not open onto the player's corridors`,
+    );
+  }
+
+  const trappedGhosts = exitTile
+    ? ghostStarts.filter(
+        (start) =>
+          !floodFill(baseTiles, [start], true)[exitTile.row][exitTile.col],
+      )
+    : [];
+  if (trappedGhosts.length > 0) {
+    issues.push(
+      `ghosts at ${trappedGhosts.map(formatTile).join(", ")} have no path out of the pen`,
+    );
+  }
+
+  const unreachable = pellets.filter(
+    (pellet) => !playerArea[pellet.row][pellet.col],
+  );
+  if (unreachable.length > 0) {
+    const listed = unreachable.slice(0, MAX_REPORTED_TILES).map(formatTile);
+    const extra = unreachable.length - listed.length;
+    issues.push(
+      `${unreachable.length} pellet(s) unreachable from the player spawn: ${listed.join(", ")}${
+        extra > 0 ? ` and ${extra} more` : ""
+      }`,
+    );
+  }
+
+  const scatterTargets =
+    metadata.scatterTargets ?? defaultScatterTargets(width, height);
+  if (scatterTargets.length !== GHOST_COUNT) {
+    issues.push(
+      `expected ${GHOST_COUNT} scatter targets, found ${scatterTargets.length}`,
+    );
+  }
+
+  const fruitSpawn = metadata.fruitSpawn ?? exitTile;
+  if (fruitSpawn && !playerArea[fruitSpawn.row]?.[fruitSpawn.col]) {
+    issues.push(
+      `fruit spawn ${formatTile(fruitSpawn)} is not on a tile the player can reach`,
+    );
+  }
+
+  const fruitThresholds =
+    metadata.fruitThresholds ?? defaultFruitThresholds(pellets.length);
+  fruitThresholds.forEach((threshold, index) => {
+    if (
+      !Number.isInteger(threshold) ||
+      threshold <= 0 ||
+      threshold >= pellets.length
+    ) {
+      issues.push(
+        `fruit threshold ${threshold} must be a whole number between 1 and ${pellets.length - 1}`,
+      );
+    } else if (index > 0 && threshold <= fruitThresholds[index - 1]) {
+      issues.push("fruit thresholds must be in ascending order");
+    }
+  });
+
+  const tunnelRows: number[] = [];
+  for (let row = 0; row < height; row += 1) {
+    const leftOpen = baseTiles[row][0] !== "#";
+    const rightOpen = baseTiles[row][width - 1] !== "#";
+    if (leftOpen && rightOpen) {
+      tunnelRows.push(row);
+    } else if (leftOpen || rightOpen) {
+      issues.push(
+        `row ${row} is open on only one edge; tunnels need an opening on both sides`,
+      );
+    }
+  }
+  for (const row of [0, height - 1]) {
+    const col = baseTiles[row].findIndex((tile) => tile !== "#");
+    if (col !== -1) {
+      issues.push(
+        `edge at ${formatTile({ col, row })} is open; only the left and right edges can hold tunnels`,
+      );
+    }
+  }
+  for (const row of metadata.tunnelRows ?? []) {
+    if (row < 0 || row >= height) {
+      issues.push(`tunnel row ${row} is outside the maze`);
+    } else if (!tunnelRows.includes(row)) {
+      issues.push(`tunnel row ${row} is walled off at the maze edge`);
+    }
+  }
+
+  const noUpwardTurns = metadata.noUpwardTurns ?? [];
+  for (const tile of noUpwardTurns) {
+    if (!playerArea[tile.row]?.[tile.col]) {
+      issues.push(
+        `no-upward-turn tile ${formatTile(tile)} is not on a tile the player can reach`,
+      );
+    }
+  }
+
+  if (issues.length > 0 || !exitTile || !fruitSpawn) {
+    throw fail();
+  }
+
+  return {
+    id: metadata.id,
+    name: metadata.name,
+    width,
+    height,
+    baseTiles,
+    pelletTemplate,
+    powerTemplate,
+    pelletCount: pellets.length,
+    playerStart,
+    ghostStarts,
+    exitTile,
+    scatterTargets: scatterTargets.map((target) => ({ ...target })),
+    fruitSpawn: { ...fruitSpawn },
+    fruitThresholds: [...fruitThresholds],
+    tunnelRows,
+    noUpwardTurns: noUpwardTurns.map((tile) => ({ ...tile })),
+    difficulty: { ...metadata.difficulty },
+  };
+}
+
+/**
+ * Validates a JSON level pack and parses every maze in it, in order.
+ */
+export function loadLevelPack(data: unknown): LevelData[] {
+  if (!isRecord(data)) {
+    throw new MazeValidationError("level pack", ["pack is not a JSON object"]);
+  }
+  const packName = typeof data.name === "string" ? data.name : "level pack";
+  if (data.version !== LEVEL_PACK_VERSION) {
+    throw new MazeValidationError(packName, [
+      `unsupported level pack version ${String(data.version)}, expected ${LEVEL_PACK_VERSION}`,
+    ]);
+  }
+  if (!Array.isArray(data.mazes) || data.mazes.length === 0) {
+    throw new MazeValidationError(packName, ["pack contains no mazes"]);
+  }
+
+  return data.mazes.map((maze: unknown, index) => {
+    const label = `${packName} #${index + 1}`;
+    if (
+      !isRecord(maze) ||
+      !Array.isArray(maze.layout) ||
+      !maze.layout.every((line) => typeof line === "string") ||
+      !isRecord(maze.metadata) ||
+      typeof maze.metadata.id !== "string" ||
+      typeof maze.metadata.name !== "string"
+    ) {
+      throw new MazeValidationError(label, [
+        "entries need a string[] layout and a metadata block with an id and name",
+      ]);
+    }
+    return parseLevel(
+      maze.layout as string[],
+      maze.metadata as unknown as MazeMetadata,
+    );
+  });
+}
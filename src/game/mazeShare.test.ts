@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { MazeDefinition } from "./levels";
+import bundledLevelPack from "./levels/bundled.json";
+import {
+  DEFAULT_CUSTOM_METADATA,
+  fitMetadataToLayout,
+  parseMazeImport,
+  validateMaze,
+} from "./mazeShare";
+
+// The editor starts from the first bundled maze under a custom name.
+const bundled = bundledLevelPack.mazes[0] as MazeDefinition;
+const starter: MazeDefinition = {
+  layout: bundled.layout,
+  metadata: { ...bundled.metadata, ...DEFAULT_CUSTOM_METADATA },
+};
+
+function paint(layout: string[], col: number, row: number, tile: string) {
+  return layout.map((line, index) =>
+    index === row ? line.slice(0, col) + tile + line.slice(col + 1) : line,
+  );
+}
+
+describe("fitMetadataToLayout", () => {
+  test("keeps the starting maze's metadata as it is", () => {
+    assert.deepEqual(fitMetadataToLayout(starter), starter);
+    assert.deepEqual(validateMaze(starter), []);
+  });
+
+  test("painting over a no-upward-turn tile keeps the maze valid", () => {
+    const layout = paint(starter.layout, 7, 16, "#");
+    assert.deepEqual(validateMaze(fitMetadataToLayout({ ...starter, layout })), []);
+  });
+
+  test("shrinking the starting maze leaves only layout problems", () => {
+    const layout = starter.layout.map((line) => line.slice(0, 15));
+    const issues = validateMaze(fitMetadataToLayout({ ...starter, layout }));
+    assert.ok(issues.length > 0);
+    assert.ok(issues.every((issue) => issue.includes("open on only one edge")));
+
+    // Walling off the cut edge fixes those. The maze is now too small for
+    // the default fruit thresholds, so they are scaled to its pellets.
+    const walled = layout.map((line) => line.slice(0, -1) + "#");
+    assert.deepEqual(validateMaze(fitMetadataToLayout({ ...starter, layout: walled })), []);
+  });
+
+  test("walled-off tunnels, lost corners and thresholds past the pellets are dropped", () => {
+    // The second bundled maze has a tunnel along row 7.
+    const crossroads = bundledLevelPack.mazes[1] as MazeDefinition;
+    const lastCol = crossroads.layout[7].length - 1;
+    const layout = paint(paint(crossroads.layout, 0, 7, "#"), lastCol, 7, "#");
+    const { metadata } = fitMetadataToLayout({
+      layout,
+      metadata: {
+        ...crossroads.metadata,
+        scatterTargets: [
+          { col: 19, row: 1 },
+          { col: 1, row: 1 },
+          { col: 1, row: 20 },
+          { col: 30, row: 20 },
+        ],
+        fruitThresholds: [100, 300],
+      },
+    });
+    assert.deepEqual(metadata.tunnelRows, []);
+    assert.equal(metadata.scatterTargets, undefined);
+    assert.equal(metadata.fruitThresholds, undefined);
+    assert.deepEqual(validateMaze({ layout, metadata }), []);
+  });
+});
+
+test("a small maze imported as text is valid", () => {
+  const text = [
+    "#########",
+    "#...P...#",
+    "#.##=##.#",
+    "#.#GGG#.#",
+    "#.#####.#",
+    "#.......#",
+    "#########",
+  ].join("\n");
+  const imported = parseMazeImport(text);
+  assert.deepEqual(imported.metadata, DEFAULT_CUSTOM_METADATA);
+  assert.deepEqual(validateMaze(imported), []);
+});
@@ -0,0 +1,152 @@
+import {
+  MazeValidationError,
+  parseLevel,
+  validateMazeMetadata,
+  type MazeDefinition,
+  type TileCoord,
+} from "./levels";
+
+export const DEFAULT_CUSTOM_METADATA = { id: "custom", name: "Custom maze" };
+// Tiles Pac-Man could stand on. Whether he can reach them is left to
+// validation.
+const OPEN_TILES = new Set([".", "o", "P", "T", " "]);
+
+/**
+ * Lists everything wrong with a maze, or nothing if it would load. Used for
+ * live validation while editing, so it never throws.
+ */
+export function validateMaze(definition: MazeDefinition): string[] {
+  try {
+    parseLevel(definition.layout, definition.metadata);
+    return [];
+  } catch (error) {
+    if (error instanceof MazeValidationError) {
+      return error.issues;
+    }
+    return [
+      `maze could not be checked: ${error instanceof Error ? error.message : String(error)}`,
+    ];
+  }
+}
+
+/**
+ * Drops the metadata an edited layout no longer fits, since the editor has
+ * no fields for it: fruit spawns and no-upward-turn tiles that are now wall
+ * or off the grid, tunnel rows that are walled off, scatter corners off the
+ * grid and fruit thresholds past the pellet count. Those fall back to the
+ * defaults for the layout; everything that still fits is kept.
+ */
+export function fitMetadataToLayout(definition: MazeDefinition): MazeDefinition {
+  const { layout } = definition;
+  const metadata = { ...definition.metadata };
+  const isOpen = (tile: TileCoord) =>
+    OPEN_TILES.has(layout[tile.row]?.[tile.col] ?? "#");
+  const isOnGrid = (tile: TileCoord) =>
+    tile.col >= 0 && tile.col < (layout[tile.row]?.length ?? 0);
+
+  if (metadata.noUpwardTurns) {
+    metadata.noUpwardTurns = metadata.noUpwardTurns.filter(isOpen);
+  }
+  if (metadata.fruitSpawn && !isOpen(metadata.fruitSpawn)) {
+    delete metadata.fruitSpawn;
+  }
+  if (metadata.tunnelRows) {
+    metadata.tunnelRows = metadata.tunnelRows.filter((row) => {
+      const line = layout[row];
+      return line !== undefined && line[0] !== "#" && line[line.length - 1] !== "#";
+    });
+  }
+  // Ghosts need all four corners, so one lost corner resets them all.
+  if (metadata.scatterTargets && !metadata.scatterTargets.every(isOnGrid)) {
+    delete metadata.scatterTargets;
+  }
+  const pelletCount = layout.join("").replace(/[^.o]/g, "").length;
+  if (metadata.fruitThresholds?.some((threshold) => threshold >= pelletCount)) {
+    delete metadata.fruitThresholds;
+  }
+  return { layout, metadata };
+}
+
+export function mazeToText(definition: MazeDefinition): string {
+  return definition.layout.join("\n");
+}
+
+export function mazeToJson(definition: MazeDefinition): string {
+  return JSON.stringify(definition, null, 2);
+}
+
+// Imports and share links are untrusted, so the metadata is checked in full
+// here; the layout is left to live validation in the editor.
+function readDefinition(data: unknown, label: string): MazeDefinition {
+  const maze = data as Partial<MazeDefinition> | null;
+  if (
+    typeof maze !== "object" ||
+    maze === null ||
+    !Array.isArray(maze.layout) ||
+    !maze.layout.every((line) => typeof line === "string")
+  ) {
+    throw new MazeValidationError(label, [
+      "expected a string[] layout and a metadata block with an id and name",
+    ]);
+  }
+  const issues = validateMazeMetadata(maze.metadata);
+  if (issues.length > 0) {
+    throw new MazeValidationError(label, issues);
+  }
+  return { layout: maze.layout, metadata: maze.metadata! };
+}
+
+/**
+ * Reads a maze pasted or loaded as either JSON (a maze definition with
+ * layout and metadata) or plain text (one line per row). Text mazes get
+ * default metadata. The layout is not validated beyond its shape.
+ */
+export function parseMazeImport(text: string): MazeDefinition {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{")) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new MazeValidationError("import", ["text is not valid JSON"]);
+    }
+    return readDefinition(data, "import");
+  }
+
+  // Blank lines around the maze are dropped; spaces inside it are tiles.
+  const layout = text.replace(/\r/g, "").split("\n");
+  while (layout.length > 0 && layout[0].trim() === "") {
+    layout.shift();
+  }
+  while (layout.length > 0 && layout[layout.length - 1].trim() === "") {
+    layout.pop();
+  }
+  if (layout.length === 0) {
+    throw new MazeValidationError("import", ["no maze rows found"]);
+  }
+  return { layout, metadata: { ...DEFAULT_CUSTOM_METADATA } };
+}
+
+/**
+ * Packs a maze into a URL-safe base64 string for share links.
+ */
+export function encodeMazePayload(definition: MazeDefinition): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(definition));
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeMazePayload(payload: string): MazeDefinition {
+  let data: unknown;
+  try {
+    const binary = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new MazeValidationError("shared maze", ["the link's maze data is corrupted"]);
+  }
+  return readDefinition(data, "shared maze");
+}
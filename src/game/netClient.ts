@@ -0,0 +1,345 @@
+import {
+  createClock,
+  FIXED_DT,
+  mazeForLevel,
+  step,
+  type Direction,
+  type FixedStepClock,
+  type GameState,
+  type StepInput,
+} from "./engine";
+import type { LevelData } from "./levels";
+import {
+  decodeBoardGrid,
+  NetProtocolError,
+  toNetState,
+  type ClientMessage,
+  type NetRole,
+  type NetState,
+  type ServerMessage,
+} from "./netProtocol";
+
+// Where an actor was drawn from at one moment.
+export interface ActorPose {
+  x: number;
+  y: number;
+  dir: Direction;
+}
+
+interface PoseFrame {
+  // The client's clock, in milliseconds, when the server state arrived.
+  time: number;
+  player: ActorPose;
+  ghosts: ActorPose[];
+}
+
+interface PendingInput {
+  seq: number;
+  // The predicted tick the turn was first applied on.
+  tick: number;
+  direction: Direction;
+}
+
+/**
+ * A client's view of a networked match. The server's state is kept as it
+ * arrived; the predicted state is that state run forward with this client's
+ * inputs the server has not confirmed yet, so the client's own actor reacts
+ * at once. Everything else is drawn a little in the past, interpolated
+ * between server states.
+ */
+export interface NetClient {
+  mazes: LevelData[];
+  role: NetRole | null;
+  versusGhost: string | null;
+  // Players seated while no match is running, or null during a match.
+  waitingPlayers: number | null;
+  server: GameState | null;
+  predicted: GameState | null;
+  pending: PendingInput[];
+  nextSeq: number;
+  clock: FixedStepClock;
+  poses: PoseFrame[];
+}
+
+// How far behind the newest server state other actors are drawn. Two
+// broadcasts' worth keeps a state on either side of the drawn moment.
+export const INTERPOLATION_DELAY_MS = 70;
+// Prediction stops this far ahead of the server and waits for it.
+const MAX_PREDICTION_TICKS = 30;
+const MAX_FRAME_TIME = 0.25;
+const POSE_HISTORY_MS = 1000;
+
+export function createNetClient(mazes: LevelData[]): NetClient {
+  return {
+    mazes,
+    role: null,
+    versusGhost: null,
+    waitingPlayers: null,
+    server: null,
+    predicted: null,
+    pending: [],
+    nextSeq: 0,
+    clock: createClock(),
+    poses: [],
+  };
+}
+
+// Rebuilds a full engine state around the parts the server sends. The
+// layout is never modified by the engine, so the level's tiles are shared.
+function buildState(
+  mazes: LevelData[],
+  state: NetState,
+  pellets: boolean[][],
+  powerPellets: boolean[][],
+): GameState {
+  const level = mazeForLevel(mazes, state.levelNumber);
+  return {
+    ...structuredClone(state),
+    mazes,
+    level,
+    layout: level.baseTiles,
+    pellets,
+    powerPellets,
+    events: [],
+  };
+}
+
+function cloneForPrediction(state: GameState): GameState {
+  return {
+    ...structuredClone({
+      ...state,
+      mazes: null,
+      level: null,
+      layout: null,
+    }),
+    mazes: state.mazes,
+    level: state.level,
+    layout: state.layout,
+  };
+}
+
+function poseOf(actor: ActorPose): ActorPose {
+  return { x: actor.x, y: actor.y, dir: { ...actor.dir } };
+}
+
+function recordPoses(client: NetClient, state: GameState, now: number) {
+  client.poses.push({
+    time: now,
+    player: poseOf(state.player),
+    ghosts: state.ghosts.map(poseOf),
+  });
+  while (
+    client.poses.length > 2 &&
+    client.poses[0].time < now - POSE_HISTORY_MS
+  ) {
+    client.poses.shift();
+  }
+}
+
+function inputAt(client: NetClient, tick: number, first: boolean): StepInput {
+  // Turns stamped before the server state being replayed from have not
+  // reached the server yet, so they go in on the first tick.
+  const due = client.pending.filter(
+    (input) => input.tick === tick || (first && input.tick < tick),
+  );
+  const direction = due.length > 0 ? due[due.length - 1].direction : null;
+  if (client.role === "ghost") {
+    return { direction: null, ghostDirection: direction };
+  }
+  return { direction: client.role === "pacman" ? direction : null };
+}
+
+// Replays the unconfirmed inputs on top of a new server state, up to the
+// tick the prediction had already reached.
+function reconcile(client: NetClient, ack: number) {
+  const server = client.server!;
+  client.pending = client.pending.filter((input) => input.seq > ack);
+  const previous = client.predicted;
+  const target =
+    previous &&
+    previous.tick > server.tick &&
+    previous.tick - server.tick <= MAX_PREDICTION_TICKS
+      ? previous.tick
+      : server.tick;
+
+  const predicted = cloneForPrediction(server);
+  let first = true;
+  while (predicted.tick < target) {
+    step(predicted, inputAt(client, predicted.tick, first));
+    first = false;
+  }
+  client.predicted = predicted;
+}
+
+/**
+ * Applies one message from the server. now is the client's clock in
+ * milliseconds, as later passed to netRenderState().
+ */
+export function receiveServerMessage(
+  client: NetClient,
+  message: ServerMessage,
+  now: number,
+) {
+  switch (message.type) {
+    case "welcome":
+      if (message.role !== client.role) {
+        client.pending = [];
+      }
+      client.role = message.role;
+      client.versusGhost = message.versusGhost;
+      break;
+    case "waiting":
+      client.waitingPlayers = message.players;
+      client.server = null;
+      client.predicted = null;
+      client.pending = [];
+      client.poses = [];
+      break;
+    case "snapshot": {
+      const level = mazeForLevel(client.mazes, message.state.levelNumber);
+      if (level.id !== message.levelId) {
+        throw new NetProtocolError(
+          `Server is playing maze "${message.levelId}", but level ${message.state.levelNumber} here is "${level.id}".`,
+        );
+      }
+      client.waitingPlayers = null;
+      client.server = buildState(
+        client.mazes,
+        message.state,
+        decodeBoardGrid(message.board.pellets),
+        decodeBoardGrid(message.board.powerPellets),
+      );
+      reconcile(client, message.ack);
+      recordPoses(client, client.server, now);
+      break;
+    }
+    case "delta": {
+      // Deltas build on a snapshot, so any before the first are dropped.
+      const previous = client.server;
+      if (!previous) {
+        break;
+      }
+      for (const [col, row] of message.eaten) {
+        previous.pellets[row][col] = false;
+        previous.powerPellets[row][col] = false;
+      }
+      client.server = buildState(
+        client.mazes,
+        { ...toNetState(previous), ...message.changes },
+        previous.pellets,
+        previous.powerPellets,
+      );
+      reconcile(client, message.ack);
+      recordPoses(client, client.server, now);
+      break;
+    }
+  }
+}
+
+/**
+ * Turns a local turn into a message for the server and predicts it right
+ * away. Returns null if this client has nothing to steer.
+ */
+export function queueNetInput(
+  client: NetClient,
+  direction: Direction,
+): ClientMessage | null {
+  if (!client.predicted || client.role === null || client.role === "spectator") {
+    return null;
+  }
+  client.nextSeq += 1;
+  client.pending.push({
+    seq: client.nextSeq,
+    tick: client.predicted.tick,
+    direction: { ...direction },
+  });
+  return { type: "input", seq: client.nextSeq, direction: { ...direction } };
+}
+
+/**
+ * Runs the prediction forward by one rendered frame's worth of fixed ticks
+ * and returns the number run.
+ */
+export function advanceNetClient(client: NetClient, frameTime: number): number {
+  const { predicted, server } = client;
+  if (!predicted || !server) {
+    return 0;
+  }
+  client.clock.accumulator += Math.min(frameTime, MAX_FRAME_TIME);
+  let ticks = 0;
+  while (client.clock.accumulator >= FIXED_DT) {
+    client.clock.accumulator -= FIXED_DT;
+    if (predicted.tick - server.tick >= MAX_PREDICTION_TICKS) {
+      client.clock.accumulator = 0;
+      break;
+    }
+    step(predicted, inputAt(client, predicted.tick, false));
+    ticks += 1;
+  }
+  return ticks;
+}
+
+function interpolatePose(a: ActorPose, b: ActorPose, t: number): ActorPose {
+  // A jump of more than a tile is a tunnel wrap or a reset, not movement.
+  if (Math.abs(b.x - a.x) > 1 || Math.abs(b.y - a.y) > 1) {
+    return poseOf(b);
+  }
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    dir: { ...b.dir },
+  };
+}
+
+function posesAt(frames: PoseFrame[], time: number): PoseFrame | null {
+  if (frames.length === 0) {
+    return null;
+  }
+  const next = frames.findIndex((frame) => frame.time > time);
+  if (next === -1) {
+    return frames[frames.length - 1];
+  }
+  if (next === 0) {
+    return frames[0];
+  }
+  const a = frames[next - 1];
+  const b = frames[next];
+  const t = (time - a.time) / (b.time - a.time);
+  return {
+    time,
+    player: interpolatePose(a.player, b.player, t),
+    ghosts: b.ghosts.map((pose, index) =>
+      interpolatePose(a.ghosts[index] ?? pose, pose, t),
+    ),
+  };
+}
+
+/**
+ * The state to draw at time now: the prediction, with every actor this
+ * client does not steer moved to its interpolated position.
+ */
+export function netRenderState(
+  client: NetClient,
+  now: number,
+): GameState | null {
+  const { predicted } = client;
+  if (!predicted) {
+    return null;
+  }
+  const poses = posesAt(client.poses, now - INTERPOLATION_DELAY_MS);
+  if (!poses) {
+    return predicted;
+  }
+  return {
+    ...predicted,
+    player:
+      client.role === "pacman"
+        ? predicted.player
+        : { ...predicted.player, ...poses.player },
+    ghosts: predicted.ghosts.map((ghost, index) =>
+      (client.role === "ghost" && ghost.controlled) || !poses.ghosts[index]
+        ? ghost
+        : { ...ghost, ...poses.ghosts[index] },
+    ),
+  };
+}
@@ -0,0 +1,238 @@
+import type { Direction, GameState } from "./engine";
+
+/**
+ * Messages exchanged between the LAN relay server and its clients, as JSON
+ * text frames. The server runs the only authoritative simulation; clients
+ * send turns and receive the resulting state.
+ */
+
+export const NET_PROTOCOL_VERSION = 2;
+export const DEFAULT_RELAY_PORT = 8787;
+
+// The first two clients to connect play; anyone after them watches.
+export type NetRole = "pacman" | "ghost" | "spectator";
+
+// Everything in a GameState that changes during play. The mazes, level and
+// layout follow from the level number on both ends, the pellet grids travel
+// as a NetBoard or as eaten tiles, and events stay on the server.
+export type NetState = Omit<
+  GameState,
+  "mazes" | "level" | "layout" | "pellets" | "powerPellets" | "events"
+>;
+
+// Pellet grids as one string per row, "1" where a pellet is left.
+export interface NetBoard {
+  pellets: string[];
+  powerPellets: string[];
+}
+
+export type ServerMessage =
+  | {
+      type: "welcome";
+      version: number;
+      role: NetRole;
+      // The ghost the ghost player steers.
+      versusGhost: string;
+    }
+  // No match is running; sent whenever a seat is still empty.
+  | { type: "waiting"; players: number }
+  // The whole state, sent when a match or level starts and to late joiners.
+  | {
+      type: "snapshot";
+      levelId: string;
+      state: NetState;
+      board: NetBoard;
+      // The last of this client's inputs the state includes.
+      ack: number;
+    }
+  // The top-level fields of the state that changed since the previous
+  // message, and the pellets eaten since then as [col, row] pairs.
+  | {
+      type: "delta";
+      changes: Partial<NetState>;
+      eaten: [number, number][];
+      ack: number;
+    };
+
+export type ClientMessage =
+  // seq increases with every input so the server can acknowledge them.
+  | { type: "input"; seq: number; direction: Direction }
+  // Asks for a new match once the current one is over.
+  | { type: "restart" };
+
+export class NetProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NetProtocolError";
+  }
+}
+
+const NET_ROLES: NetRole[] = ["pacman", "ghost", "spectator"];
+// JSON has no Infinity, but the last scatter/chase phase lasts forever.
+// Numbers in these fields travel as strings when they are not finite.
+const UNBOUNDED_FIELDS = new Set(["modeTimer", "modeSchedule", "modeWaves"]);
+
+export function toNetState(state: GameState): NetState {
+  // The stripped fields are only pulled out to be left behind.
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { mazes, level, layout, pellets, powerPellets, events, ...rest } = state;
+  return rest;
+}
+
+function encodeUnbounded(value: unknown): unknown {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : String(value);
+  }
+  return Array.isArray(value) ? value.map(encodeUnbounded) : value;
+}
+
+function decodeUnbounded(value: unknown): unknown {
+  if (typeof value === "string") {
+    return Number(value);
+  }
+  return Array.isArray(value) ? value.map(decodeUnbounded) : value;
+}
+
+function encodeJson(value: unknown): string {
+  return JSON.stringify(value, (key, field) =>
+    UNBOUNDED_FIELDS.has(key) ? encodeUnbounded(field) : field,
+  );
+}
+
+export function encodeServerMessage(message: ServerMessage): string {
+  return encodeJson(message);
+}
+
+/**
+ * Returns the top-level fields of state whose value differs from the one
+ * recorded in sent, and records the new values. sent starts empty, so the
+ * first call returns every field.
+ */
+export function changedFields(
+  state: NetState,
+  sent: Map<string, string>,
+): Partial<NetState> {
+  const changes: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(state)) {
+    const json = encodeJson(value);
+    if (sent.get(key) !== json) {
+      sent.set(key, json);
+      changes[key] = value;
+    }
+  }
+  return changes as Partial<NetState>;
+}
+
+export function encodeBoard(state: GameState): NetBoard {
+  const encode = (grid: boolean[][]) =>
+    grid.map((row) => row.map((cell) => (cell ? "1" : "0")).join(""));
+  return {
+    pellets: encode(state.pellets),
+    powerPellets: encode(state.powerPellets),
+  };
+}
+
+export function decodeBoardGrid(rows: string[]): boolean[][] {
+  return rows.map((row) => Array.from(row, (cell) => cell === "1"));
+}
+
+function isDirection(value: unknown): value is Direction {
+  const dir = value as Partial<Direction> | null;
+  return (
+    typeof dir === "object" &&
+    dir !== null &&
+    (dir.x === 0 || dir.x === 1 || dir.x === -1) &&
+    (dir.y === 0 || dir.y === 1 || dir.y === -1) &&
+    Math.abs(dir.x) + Math.abs(dir.y) === 1
+  );
+}
+
+function readMessage(
+  text: string,
+  reviver?: (key: string, value: unknown) => unknown,
+): Record<string, unknown> {
+  let data: unknown;
+  try {
+    data = JSON.parse(text, reviver);
+  } catch {
+    throw new NetProtocolError("Message is not valid JSON.");
+  }
+  if (typeof data !== "object" || data === null) {
+    throw new NetProtocolError("Message is not an object.");
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Reads a message from a client. Anything malformed is rejected, since
+ * clients are not trusted.
+ */
+export function parseClientMessage(text: string): ClientMessage {
+  const data = readMessage(text);
+  if (
+    data.type === "input" &&
+    Number.isInteger(data.seq) &&
+    isDirection(data.direction)
+  ) {
+    return {
+      type: "input",
+      seq: data.seq as number,
+      direction: { x: data.direction.x, y: data.direction.y },
+    };
+  }
+  if (data.type === "restart") {
+    return { type: "restart" };
+  }
+  throw new NetProtocolError(`Unknown or malformed client message "${String(data.type)}".`);
+}
+
+/**
+ * Reads a message from the server. Only the envelope is checked; the state
+ * inside comes from the same engine.
+ */
+export function parseServerMessage(text: string): ServerMessage {
+  const data = readMessage(text, (key, value) =>
+    UNBOUNDED_FIELDS.has(key) ? decodeUnbounded(value) : value,
+  );
+  switch (data.type) {
+    case "welcome":
+      if (data.version !== NET_PROTOCOL_VERSION) {
+        throw new NetProtocolError(
+          `Server speaks protocol version ${String(data.version)}, expected ${NET_PROTOCOL_VERSION}.`,
+        );
+      }
+      if (
+        NET_ROLES.includes(data.role as NetRole) &&
+        typeof data.versusGhost === "string"
+      ) {
+        return data as ServerMessage;
+      }
+      break;
+    case "waiting":
+      if (Number.isInteger(data.players)) {
+        return data as ServerMessage;
+      }
+      break;
+    case "snapshot":
+      if (
+        typeof data.levelId === "string" &&
+        typeof data.state === "object" &&
+        typeof data.board === "object" &&
+        Number.isInteger(data.ack)
+      ) {
+        return data as ServerMessage;
+      }
+      break;
+    case "delta":
+      if (
+        typeof data.changes === "object" &&
+        data.changes !== null &&
+        Array.isArray(data.eaten) &&
+        Number.isInteger(data.ack)
+      ) {
+        return data as ServerMessage;
+      }
+      break;
+  }
+  throw new NetProtocolError(`Unknown or malformed server message "${String(data.type)}".`);
+}
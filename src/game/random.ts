@@ -0,0 +1,20 @@
+/**
+ * One step of the mulberry32 generator. The whole generator state is a single
+ * 32-bit integer, so it can live inside plain, serialisable game state.
+ */
+export function nextRandom(seed: number): { value: number; seed: number } {
+  const nextSeed = (seed + 0x6d2b79f5) | 0;
+  let t = nextSeed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  return { value, seed: nextSeed };
+}
+
+/**
+ * Picks a fresh seed for a new game. Only this entry point is allowed to use
+ * a non-deterministic source.
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) | 0;
+}
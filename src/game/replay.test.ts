@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createGameState, step, type StepInput } from "./engine";
+import { loadLevelPack } from "./levels";
+import bundledLevelPack from "./levels/bundled.json";
+import {
+  createPlayback,
+  createRecorder,
+  finishRecording,
+  hashState,
+  parseReplay,
+  recordInput,
+  ReplayFormatError,
+  serializeReplay,
+  stepPlayback,
+  verifyPlayback,
+} from "./replay";
+
+const mazes = loadLevelPack(bundledLevelPack);
+
+test("a recording with a pause and resume plays back to the same state", () => {
+  const state = createGameState(mazes, 1, 99);
+  const recorder = createRecorder(state);
+  const inputs = new Map<number, StepInput>([
+    [200, { direction: { x: -1, y: 0 } }],
+    [320, { direction: { x: 0, y: -1 }, command: "pause" }],
+    [400, { direction: null, command: "resume" }],
+    [450, { direction: { x: 1, y: 0 } }],
+    [600, { direction: { x: 0, y: 1 } }],
+  ]);
+  for (let tick = 0; tick < 900; tick += 1) {
+    const input = inputs.get(tick) ?? { direction: null };
+    recordInput(recorder, state.tick, input);
+    step(state, input);
+    if (tick === 360) {
+      assert.equal(state.status, "paused");
+    }
+  }
+
+  const replay = parseReplay(serializeReplay(finishRecording(recorder, state)));
+  const playback = createPlayback(replay, mazes);
+  while (stepPlayback(playback)) {
+    // Runs every recorded tick.
+  }
+
+  assert.equal(playback.state.tick, state.tick);
+  assert.equal(hashState(playback.state), hashState(state));
+  assert.deepEqual(verifyPlayback(playback), {
+    scoreMatches: true,
+    hashMatches: true,
+  });
+});
+
+test("a replay without its ghost movement or player count is rejected", () => {
+  const state = createGameState(mazes, 1, 99);
+  const replay = finishRecording(createRecorder(state), state);
+  for (const field of ["ghostMovement", "playerCount"] as const) {
+    const incomplete: Partial<typeof replay> = { ...replay };
+    delete incomplete[field];
+    assert.throws(() => parseReplay(JSON.stringify(incomplete)), ReplayFormatError);
+  }
+  assert.doesNotThrow(() => parseReplay(serializeReplay(replay)));
+});
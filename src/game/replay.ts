@@ -0,0 +1,324 @@
+import {
+  createClock,
+  createGameState,
+  FIXED_DT,
+  mazeForLevel,
+  step,
+  type Direction,
+  type FixedStepClock,
+  type GameCommand,
+  GHOST_IDS,
+  type GameState,
+  type GhostMovement,
+  type StepInput,
+} from "./engine";
+import type { GameEventListener } from "./events";
+import type { LevelData } from "./levels";
+
+type DirectionCode = "U" | "D" | "L" | "R";
+// Turns buffered for the versus ghost.
+type GhostDirectionCode = `G${DirectionCode}`;
+type InputCode = DirectionCode | GhostDirectionCode | GameCommand;
+
+export interface Replay {
+  version: 2;
+  seed: number;
+  levelNumber: number;
+  levelId: string;
+  ghostMovement: GhostMovement;
+  playerCount: number;
+  // Only present for versus games.
+  versusGhost?: string;
+  ticks: number;
+  // [tick, code] pairs, only for ticks where a new turn was buffered or the
+  // game was paused or resumed.
+  inputs: [number, InputCode][];
+  finalScore: number;
+  finalHash: string;
+}
+
+export interface ReplayRecorder {
+  seed: number;
+  levelNumber: number;
+  levelId: string;
+  ghostMovement: GhostMovement;
+  playerCount: number;
+  versusGhost: string | null;
+  inputs: [number, InputCode][];
+}
+
+export interface ReplayPlayback {
+  replay: Replay;
+  state: GameState;
+  clock: FixedStepClock;
+  cursor: number;
+}
+
+export interface ReplayVerdict {
+  scoreMatches: boolean;
+  hashMatches: boolean;
+}
+
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReplayFormatError";
+  }
+}
+
+// Bumped whenever the engine changes how a recorded game plays out; older
+// replays are rejected instead of showing a false mismatch. Version 2 came
+// with cornering and the expiring turn buffer.
+const REPLAY_VERSION = 2;
+// Keeps a long frame at 4x speed from simulating more than a second at once.
+const MAX_PLAYBACK_FRAME_TIME = 1;
+
+const DIRECTION_CODES: { code: DirectionCode; dir: Direction }[] = [
+  { code: "U", dir: { x: 0, y: -1 } },
+  { code: "D", dir: { x: 0, y: 1 } },
+  { code: "L", dir: { x: -1, y: 0 } },
+  { code: "R", dir: { x: 1, y: 0 } },
+];
+const COMMAND_CODES: GameCommand[] = ["pause", "resume"];
+const GHOST_MOVEMENTS: GhostMovement[] = ["smart", "arcade"];
+
+function isCommandCode(code: InputCode): code is GameCommand {
+  return COMMAND_CODES.includes(code as GameCommand);
+}
+
+function isGhostDirectionCode(code: InputCode): code is GhostDirectionCode {
+  return DIRECTION_CODES.some((entry) => `G${entry.code}` === code);
+}
+
+function encodeDirection(dir: Direction): DirectionCode | null {
+  return (
+    DIRECTION_CODES.find((entry) => entry.dir.x === dir.x && entry.dir.y === dir.y)
+      ?.code ?? null
+  );
+}
+
+function decodeDirection(code: DirectionCode): Direction {
+  const entry = DIRECTION_CODES.find((candidate) => candidate.code === code)!;
+  return { ...entry.dir };
+}
+
+/**
+ * FNV-1a over the parts of the state that matter for gameplay. Two runs with
+ * equal hashes ended with the same board, actors, score and RNG state.
+ */
+export function hashState(state: GameState): string {
+  const snapshot = JSON.stringify([
+    state.tick,
+    state.score,
+    state.lives,
+    state.levelNumber,
+    state.status,
+    state.rngState,
+    state.pellets.map((row) => row.map((pellet) => (pellet ? 1 : 0)).join("")),
+    [state.player.x, state.player.y, state.player.dir],
+    state.ghosts.map((ghost) => [ghost.x, ghost.y, ghost.state, ghost.dir]),
+  ]);
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < snapshot.length; i += 1) {
+    hash ^= snapshot.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+export function createRecorder(state: GameState): ReplayRecorder {
+  return {
+    seed: state.seed,
+    levelNumber: state.levelNumber,
+    levelId: state.level.id,
+    ghostMovement: state.ghostMovement,
+    playerCount: state.playerCount,
+    versusGhost: state.versusGhost,
+    inputs: [],
+  };
+}
+
+export function recordInput(
+  recorder: ReplayRecorder,
+  tick: number,
+  input: StepInput,
+) {
+  if (input.command) {
+    recorder.inputs.push([tick, input.command]);
+  }
+  const code = input.direction ? encodeDirection(input.direction) : null;
+  if (code) {
+    recorder.inputs.push([tick, code]);
+  }
+  const ghostCode = input.ghostDirection
+    ? encodeDirection(input.ghostDirection)
+    : null;
+  if (ghostCode) {
+    recorder.inputs.push([tick, `G${ghostCode}`]);
+  }
+}
+
+export function finishRecording(
+  recorder: ReplayRecorder,
+  state: GameState,
+): Replay {
+  return {
+    version: REPLAY_VERSION,
+    seed: recorder.seed,
+    levelNumber: recorder.levelNumber,
+    levelId: recorder.levelId,
+    ghostMovement: recorder.ghostMovement,
+    playerCount: recorder.playerCount,
+    versusGhost: recorder.versusGhost ?? undefined,
+    ticks: state.tick,
+    inputs: recorder.inputs.map(([tick, code]) => [tick, code]),
+    finalScore: state.score,
+    finalHash: hashState(state),
+  };
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+export function parseReplay(text: string): Replay {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ReplayFormatError("Replay file is not valid JSON.");
+  }
+
+  if (typeof data !== "object" || data === null) {
+    throw new ReplayFormatError("Replay file does not contain an object.");
+  }
+  const replay = data as Partial<Replay>;
+  if (replay.version !== REPLAY_VERSION) {
+    throw new ReplayFormatError(
+      `Unsupported replay version ${String(replay.version)}, expected ${REPLAY_VERSION}.`,
+    );
+  }
+  const numbersValid = [
+    replay.seed,
+    replay.levelNumber,
+    replay.ticks,
+    replay.finalScore,
+  ].every((value) => typeof value === "number" && Number.isInteger(value));
+  const inputsValid =
+    Array.isArray(replay.inputs) &&
+    replay.inputs.every(
+      (input) =>
+        Array.isArray(input) &&
+        Number.isInteger(input[0]) &&
+        (DIRECTION_CODES.some((entry) => entry.code === input[1]) ||
+          isGhostDirectionCode(input[1]) ||
+          isCommandCode(input[1])),
+    );
+  if (
+    !numbersValid ||
+    !inputsValid ||
+    typeof replay.levelId !== "string" ||
+    typeof replay.finalHash !== "string" ||
+    !GHOST_MOVEMENTS.includes(replay.ghostMovement as GhostMovement) ||
+    (replay.playerCount !== 1 && replay.playerCount !== 2) ||
+    (replay.versusGhost !== undefined &&
+      !GHOST_IDS.includes(replay.versusGhost))
+  ) {
+    throw new ReplayFormatError("Replay file is missing or has malformed fields.");
+  }
+  return replay as Replay;
+}
+
+export function createPlayback(
+  replay: Replay,
+  mazes: LevelData[],
+): ReplayPlayback {
+  const level = mazeForLevel(mazes, replay.levelNumber);
+  if (level.id !== replay.levelId) {
+    throw new ReplayFormatError(
+      `Replay was recorded on maze "${replay.levelId}", but level ${replay.levelNumber} here is "${level.id}".`,
+    );
+  }
+  return {
+    replay,
+    state: createGameState(
+      mazes,
+      replay.levelNumber,
+      replay.seed,
+      replay.ghostMovement,
+      replay.playerCount,
+      replay.versusGhost ?? null,
+    ),
+    clock: createClock(),
+    cursor: 0,
+  };
+}
+
+export function isPlaybackFinished(playback: ReplayPlayback): boolean {
+  return playback.state.tick >= playback.replay.ticks;
+}
+
+/**
+ * Runs one recorded tick. Returns false once the recording is exhausted.
+ */
+export function stepPlayback(
+  playback: ReplayPlayback,
+  onEvent?: GameEventListener,
+): boolean {
+  if (isPlaybackFinished(playback)) {
+    return false;
+  }
+
+  const { inputs } = playback.replay;
+  const input: StepInput = { direction: null };
+  while (
+    playback.cursor < inputs.length &&
+    inputs[playback.cursor][0] <= playback.state.tick
+  ) {
+    const code = inputs[playback.cursor][1];
+    if (isCommandCode(code)) {
+      input.command = code;
+    } else if (isGhostDirectionCode(code)) {
+      input.ghostDirection = decodeDirection(code.slice(1) as DirectionCode);
+    } else {
+      input.direction = decodeDirection(code);
+    }
+    playback.cursor += 1;
+  }
+  step(playback.state, input, onEvent);
+  return true;
+}
+
+/**
+ * Feeds a rendered frame into the playback at the given speed multiplier and
+ * returns the number of ticks run.
+ */
+export function advancePlayback(
+  playback: ReplayPlayback,
+  frameTime: number,
+  speed: number,
+  onEvent?: GameEventListener,
+): number {
+  playback.clock.accumulator += Math.min(
+    frameTime * speed,
+    MAX_PLAYBACK_FRAME_TIME,
+  );
+  let ticks = 0;
+  while (playback.clock.accumulator >= FIXED_DT) {
+    playback.clock.accumulator -= FIXED_DT;
+    if (!stepPlayback(playback, onEvent)) {
+      playback.clock.accumulator = 0;
+      break;
+    }
+    ticks += 1;
+  }
+  return ticks;
+}
+
+export function verifyPlayback(playback: ReplayPlayback): ReplayVerdict {
+  return {
+    scoreMatches: playback.state.score === playback.replay.finalScore,
+    hashMatches: hashState(playback.state) === playback.replay.finalHash,
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * JSON reads and writes against Web Storage that never throw. Storage can be
+ * disabled (private browsing), full, or hold something that is not JSON;
+ * settings then fall back to their defaults and last for the session only.
+ */
+
+export function readStoredJson(storage: Storage, key: string): unknown {
+  try {
+    const raw = storage.getItem(key);
+    return raw === null ? null : JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+export function writeStoredJson(storage: Storage, key: string, value: unknown) {
+  try {
+    storage.setItem(key, JSON.stringify(value));
+  } catch {
+    // The value then lives only as long as the page.
+  }
+}
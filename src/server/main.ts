@@ -0,0 +1,21 @@
+import { loadLevelPack } from "../game/levels";
+import bundledLevelPack from "../game/levels/bundled.json";
+import { DEFAULT_RELAY_PORT } from "../game/netProtocol";
+import { startRelayServer } from "./relay";
+
+// Listens on every interface so other machines on the LAN can connect.
+const port = Number(process.env.PORT ?? DEFAULT_RELAY_PORT);
+
+startRelayServer({
+  mazes: loadLevelPack(bundledLevelPack),
+  port,
+  host: "0.0.0.0",
+}).then(
+  (server) => {
+    console.log(`Relay listening on ws://0.0.0.0:${server.port}`);
+  },
+  (error: unknown) => {
+    console.error("Relay failed to start:", error);
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,229 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { WebSocket } from "ws";
+import { FIXED_DT, step, type GameState } from "../game/engine";
+import { loadLevelPack } from "../game/levels";
+import bundledLevelPack from "../game/levels/bundled.json";
+import {
+  advanceNetClient,
+  createNetClient,
+  queueNetInput,
+  receiveServerMessage,
+  type NetClient,
+} from "../game/netClient";
+import {
+  parseServerMessage,
+  type ClientMessage,
+  type ServerMessage,
+} from "../game/netProtocol";
+import { hashState } from "../game/replay";
+import { startRelayServer, type RelayServer } from "./relay";
+
+const mazes = loadLevelPack(bundledLevelPack);
+const LEFT = { x: -1, y: 0 };
+const WAIT_TIMEOUT_MS = 3000;
+
+// A headless client: the same NetClient the /online page uses, fed by a ws
+// socket instead of the browser's.
+interface TestClient {
+  socket: WebSocket;
+  client: NetClient;
+  messages: ServerMessage[];
+  // Called after each message has been applied to the client.
+  onMessage?: () => void;
+}
+
+function connect(port: number): Promise<TestClient> {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+  const testClient: TestClient = {
+    socket,
+    client: createNetClient(mazes),
+    messages: [],
+  };
+  socket.on("message", (data) => {
+    const message = parseServerMessage(String(data));
+    testClient.messages.push(message);
+    receiveServerMessage(testClient.client, message, performance.now());
+    testClient.onMessage?.();
+  });
+  return new Promise((resolve, reject) => {
+    socket.once("open", () => resolve(testClient));
+    socket.once("error", reject);
+  });
+}
+
+function send(testClient: TestClient, message: ClientMessage | null) {
+  assert.ok(message, "the client should have produced a message");
+  testClient.socket.send(JSON.stringify(message));
+}
+
+async function waitFor(what: string, condition: () => boolean) {
+  const deadline = performance.now() + WAIT_TIMEOUT_MS;
+  while (!condition()) {
+    if (performance.now() > deadline) {
+      throw new Error(`Timed out waiting for ${what}.`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+function lastAck(testClient: TestClient): number {
+  const acks = testClient.messages.flatMap((message) =>
+    message.type === "snapshot" || message.type === "delta" ? [message.ack] : [],
+  );
+  return acks.length > 0 ? acks[acks.length - 1] : -1;
+}
+
+// Runs a copy of state forward without input, as the client's prediction
+// does once every input has been acknowledged.
+function runForward(state: GameState, ticks: number): GameState {
+  const copy: GameState = {
+    ...structuredClone({ ...state, mazes: null, level: null, layout: null }),
+    mazes: state.mazes,
+    level: state.level,
+    layout: state.layout,
+  };
+  for (let tick = 0; tick < ticks; tick += 1) {
+    step(copy);
+  }
+  return copy;
+}
+
+describe("relay server with two headless clients", () => {
+  let server: RelayServer;
+  let pacman: TestClient;
+  let ghost: TestClient;
+
+  before(async () => {
+    server = await startRelayServer({
+      mazes,
+      port: 0,
+      host: "127.0.0.1",
+      seed: 42,
+    });
+    pacman = await connect(server.port);
+    await waitFor("the first client to wait", () =>
+      pacman.messages.some((message) => message.type === "waiting"),
+    );
+    ghost = await connect(server.port);
+    await waitFor("the match to start", () =>
+      [pacman, ghost].every(({ client }) => client.server !== null),
+    );
+  });
+
+  after(async () => {
+    for (const { socket } of [pacman, ghost]) {
+      socket.close();
+    }
+    await server.close();
+  });
+
+  test("seats the first client as Pac-Man and the second as the ghost", () => {
+    assert.equal(pacman.client.role, "pacman");
+    assert.equal(ghost.client.role, "ghost");
+    assert.equal(pacman.client.versusGhost, "blinky");
+    assert.deepEqual(
+      pacman.messages.find((message) => message.type === "waiting"),
+      { type: "waiting", players: 1 },
+    );
+  });
+
+  test("starts with a snapshot and follows it with deltas", async () => {
+    await waitFor("a few deltas", () =>
+      ghost.messages.filter((message) => message.type === "delta").length >= 5,
+    );
+    for (const { messages, client } of [pacman, ghost]) {
+      const kinds = messages
+        .map((message) => message.type)
+        .filter((type) => type === "snapshot" || type === "delta");
+      assert.equal(kinds[0], "snapshot");
+      assert.ok(kinds.slice(1).every((type) => type === "delta"));
+
+      const snapshot = messages.find((message) => message.type === "snapshot");
+      assert.equal(snapshot?.type === "snapshot" && snapshot.levelId, "classic");
+      // The endless last chase phase survives the trip through JSON.
+      assert.equal(client.server!.modeSchedule.at(-1), Infinity);
+      assert.equal(client.server!.difficulty.modeWaves.at(-1), Infinity);
+
+      const deltas = messages.filter((message) => message.type === "delta");
+      for (const delta of deltas) {
+        assert.ok(delta.type === "delta");
+        assert.ok(!("difficulty" in delta.changes));
+        assert.ok(!("modeSchedule" in delta.changes));
+      }
+      const ticks = deltas.map((delta) =>
+        delta.type === "delta" ? delta.changes.tick! : 0,
+      );
+      assert.ok(ticks.every((tick, index) => index === 0 || tick > ticks[index - 1]));
+    }
+  });
+
+  test("predicts a turn at once and drops it when acknowledged", async () => {
+    const { client } = pacman;
+    const message = queueNetInput(client, LEFT);
+    advanceNetClient(client, FIXED_DT);
+    assert.deepEqual(client.predicted!.player.dir, LEFT);
+    assert.deepEqual(client.server!.player.dir, { x: 0, y: 0 });
+
+    send(pacman, message);
+    await waitFor("the turn to be acknowledged", () => lastAck(pacman) >= 1);
+    assert.equal(client.pending.length, 0);
+    assert.deepEqual(client.server!.player.dir, LEFT);
+    // Acks are per client; the ghost player has sent nothing.
+    assert.equal(lastAck(ghost), 0);
+
+    send(ghost, queueNetInput(ghost.client, { x: 0, y: -1 }));
+    send(pacman, queueNetInput(client, { x: 1, y: 0 }));
+    await waitFor("both players' inputs to be acknowledged", () =>
+      lastAck(ghost) === 1 && lastAck(pacman) === 2,
+    );
+    const acks = pacman.messages.flatMap((entry) =>
+      entry.type === "delta" ? [entry.ack] : [],
+    );
+    assert.ok(acks.every((ack, index) => index === 0 || ack >= acks[index - 1]));
+  });
+
+  test("reconciles a prediction ahead of the server", async () => {
+    const { client } = pacman;
+    await waitFor("the pending turns to clear", () => client.pending.length === 0);
+
+    // Running ahead means every new server state is replayed forward to the
+    // predicted tick. With no inputs left, that must be the server's own
+    // simulation of those ticks.
+    const comparisons: boolean[] = [];
+    pacman.onMessage = () => {
+      const { server, predicted } = client;
+      if (server && predicted && predicted.tick > server.tick) {
+        const expected = runForward(server, predicted.tick - server.tick);
+        comparisons.push(hashState(predicted) === hashState(expected));
+      }
+    };
+    advanceNetClient(client, 10 * FIXED_DT);
+    await waitFor("a reconciled message", () => comparisons.length > 0);
+    pacman.onMessage = undefined;
+    assert.ok(comparisons.every(Boolean));
+
+    // Once the server passes the prediction, the prediction is its state.
+    const target = client.predicted!.tick;
+    await waitFor("the server to catch up", () => client.server!.tick > target);
+    assert.equal(client.predicted!.tick, client.server!.tick);
+    assert.equal(hashState(client.predicted!), hashState(client.server!));
+  });
+
+  test("drops a malformed message and plays on", async () => {
+    ghost.socket.send("not a message");
+    ghost.socket.send(JSON.stringify({ type: "input", seq: "soon" }));
+    const count = pacman.messages.length;
+    await waitFor("more deltas", () => pacman.messages.length > count + 3);
+    assert.equal(ghost.socket.readyState, WebSocket.OPEN);
+  });
+
+  test("rejects a second server on the same port", async () => {
+    // The failed server must not leave its tick timer behind, or the test
+    // run would never exit.
+    await assert.rejects(
+      startRelayServer({ mazes, port: server.port, host: "127.0.0.1" }),
+      { code: "EADDRINUSE" },
+    );
+  });
+});
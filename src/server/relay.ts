@@ -0,0 +1,322 @@
+import { WebSocketServer, type RawData, type WebSocket } from "ws";
+import {
+  advanceClock,
+  createClock,
+  createGameState,
+  type FixedStepClock,
+  type GameState,
+  type GhostMovement,
+  type StepInput,
+} from "../game/engine";
+import type { GameEvent } from "../game/events";
+import type { LevelData } from "../game/levels";
+import {
+  changedFields,
+  DEFAULT_RELAY_PORT,
+  encodeBoard,
+  encodeServerMessage,
+  NET_PROTOCOL_VERSION,
+  NetProtocolError,
+  parseClientMessage,
+  toNetState,
+  type ClientMessage,
+  type NetRole,
+  type ServerMessage,
+} from "../game/netProtocol";
+import { createSeed } from "../game/random";
+
+export interface RelayOptions {
+  mazes: LevelData[];
+  port?: number;
+  host?: string;
+  // The ghost the ghost player steers.
+  versusGhost?: string;
+  // Fixes the seed of every match, for reproducible runs.
+  seed?: number;
+  // How the other ghosts move; smart unless asked otherwise.
+  ghostMovement?: GhostMovement;
+}
+
+export interface RelayServer {
+  port: number;
+  close(): Promise<void>;
+}
+
+interface Seat {
+  socket: WebSocket;
+  role: NetRole;
+  // The newest input of this client that has gone into a tick.
+  appliedSeq: number;
+  // An input received but not yet simulated, and its seq.
+  pending: StepInput["direction"];
+  pendingSeq: number;
+  // Set until the client has been sent the whole state of the match.
+  needsSnapshot: boolean;
+}
+
+interface Match {
+  state: GameState;
+  clock: FixedStepClock;
+  lastTime: number;
+  // Pellets eaten since the last message went out.
+  eaten: [number, number][];
+  // A level started since the last message, so the board was replaced.
+  boardReset: boolean;
+  // The state's fields as of the last message, for building deltas.
+  sent: Map<string, string>;
+}
+
+// The server simulates in real time and sends every other tick.
+const TICK_INTERVAL_MS = 1000 / 60;
+const BROADCAST_EVERY_TICKS = 2;
+const PLAYER_ROLES: NetRole[] = ["pacman", "ghost"];
+
+/**
+ * Starts a WebSocket server that runs the only simulation of a versus match.
+ * The first client to connect plays Pac-Man and the second the ghost; later
+ * clients spectate and fill a seat if one frees up. A match starts once both
+ * seats are taken and stops when either player leaves.
+ */
+export function startRelayServer(options: RelayOptions): Promise<RelayServer> {
+  const versusGhost = options.versusGhost ?? "blinky";
+  const seats: Seat[] = [];
+  let match: Match | null = null;
+  let ticksSinceBroadcast = 0;
+
+  const send = (seat: Seat, message: ServerMessage) => {
+    seat.socket.send(encodeServerMessage(message));
+  };
+
+  const seatFor = (role: NetRole) => seats.find((seat) => seat.role === role);
+
+  const playerCount = () =>
+    PLAYER_ROLES.filter((role) => seatFor(role)).length;
+
+  const broadcast = () => {
+    if (!match) {
+      return;
+    }
+    const state = toNetState(match.state);
+    const changes = changedFields(state, match.sent);
+    for (const seat of seats) {
+      if (seat.needsSnapshot || match.boardReset) {
+        seat.needsSnapshot = false;
+        send(seat, {
+          type: "snapshot",
+          levelId: match.state.level.id,
+          state,
+          board: encodeBoard(match.state),
+          ack: seat.appliedSeq,
+        });
+      } else {
+        send(seat, {
+          type: "delta",
+          changes,
+          eaten: match.eaten,
+          ack: seat.appliedSeq,
+        });
+      }
+    }
+    match.eaten = [];
+    match.boardReset = false;
+    ticksSinceBroadcast = 0;
+  };
+
+  const onEvent = (event: GameEvent) => {
+    if (!match) {
+      return;
+    }
+    if (event.type === "pelletEaten" || event.type === "powerPelletEaten") {
+      match.eaten.push([event.col, event.row]);
+    } else if (event.type === "levelStarted") {
+      match.boardReset = true;
+    }
+  };
+
+  const startMatch = () => {
+    match = {
+      state: createGameState(
+        options.mazes,
+        1,
+        options.seed ?? createSeed(),
+        options.ghostMovement ?? "smart",
+        1,
+        versusGhost,
+      ),
+      clock: createClock(),
+      lastTime: performance.now(),
+      eaten: [],
+      boardReset: false,
+      sent: new Map(),
+    };
+    for (const seat of seats) {
+      seat.needsSnapshot = true;
+      seat.pending = null;
+    }
+    broadcast();
+  };
+
+  const stopMatch = () => {
+    match = null;
+    for (const seat of seats) {
+      send(seat, { type: "waiting", players: playerCount() });
+    }
+  };
+
+  const tick = () => {
+    if (!match) {
+      return;
+    }
+    const now = performance.now();
+    const frameTime = (now - match.lastTime) / 1000;
+    match.lastTime = now;
+
+    const pacman = seatFor("pacman");
+    const ghost = seatFor("ghost");
+    const input: StepInput = {
+      direction: pacman?.pending ?? null,
+      ghostDirection: ghost?.pending ?? null,
+    };
+    const ticks = advanceClock(match.clock, match.state, frameTime, input, onEvent);
+    if (ticks === 0) {
+      return;
+    }
+    for (const seat of [pacman, ghost]) {
+      if (seat?.pending) {
+        seat.pending = null;
+        seat.appliedSeq = seat.pendingSeq;
+      }
+    }
+    ticksSinceBroadcast += ticks;
+    if (ticksSinceBroadcast >= BROADCAST_EVERY_TICKS) {
+      broadcast();
+    }
+  };
+
+  // Empty player seats go to the longest-waiting spectators.
+  const fillSeats = () => {
+    for (const role of PLAYER_ROLES) {
+      const spectator = seatFor("spectator");
+      if (!seatFor(role) && spectator) {
+        spectator.role = role;
+        send(spectator, {
+          type: "welcome",
+          version: NET_PROTOCOL_VERSION,
+          role,
+          versusGhost,
+        });
+      }
+    }
+  };
+
+  const receive = (seat: Seat, message: ClientMessage) => {
+    if (message.type === "input" && seat.role !== "spectator") {
+      // Only the newest turn per tick counts, like a key press locally.
+      if (message.seq > seat.appliedSeq) {
+        seat.pending = message.direction;
+        seat.pendingSeq = message.seq;
+      }
+    } else if (
+      message.type === "restart" &&
+      seat.role !== "spectator" &&
+      match?.state.status === "gameover" &&
+      playerCount() === PLAYER_ROLES.length
+    ) {
+      startMatch();
+    }
+  };
+
+  const server = new WebSocketServer({
+    port: options.port ?? DEFAULT_RELAY_PORT,
+    host: options.host,
+  });
+
+  server.on("connection", (socket) => {
+    const role = PLAYER_ROLES.find((candidate) => !seatFor(candidate));
+    const seat: Seat = {
+      socket,
+      role: role ?? "spectator",
+      appliedSeq: 0,
+      pending: null,
+      pendingSeq: 0,
+      needsSnapshot: true,
+    };
+    seats.push(seat);
+    send(seat, {
+      type: "welcome",
+      version: NET_PROTOCOL_VERSION,
+      role: seat.role,
+      versusGhost,
+    });
+
+    // A late joiner gets the running match's state with the next broadcast.
+    if (!match) {
+      if (playerCount() === PLAYER_ROLES.length) {
+        startMatch();
+      } else {
+        send(seat, { type: "waiting", players: playerCount() });
+      }
+    }
+
+    socket.on("message", (data: RawData) => {
+      try {
+        receive(seat, parseClientMessage(data.toString()));
+      } catch (error) {
+        // Malformed messages are dropped. Anything else is a bug, but it is
+        // logged rather than let one client's message stop the server.
+        if (!(error instanceof NetProtocolError)) {
+          console.error("Relay could not handle a message:", error);
+        }
+      }
+    });
+
+    // The socket closes after an error, which frees the seat as usual.
+    socket.on("error", (error) => {
+      console.error("Relay client connection failed:", error.message);
+    });
+
+    socket.on("close", () => {
+      seats.splice(seats.indexOf(seat), 1);
+      if (seat.role === "spectator") {
+        return;
+      }
+      fillSeats();
+      if (playerCount() === PLAYER_ROLES.length) {
+        startMatch();
+      } else {
+        stopMatch();
+      }
+    });
+  });
+
+  const timer = setInterval(tick, TICK_INTERVAL_MS);
+
+  return new Promise((resolve, reject) => {
+    let listening = false;
+    // An error before listening means the port could not be opened. Later
+    // ones are logged and the server keeps serving the clients it has.
+    server.on("error", (error) => {
+      if (listening) {
+        console.error("Relay server error:", error.message);
+        return;
+      }
+      clearInterval(timer);
+      reject(error);
+    });
+    server.once("listening", () => {
+      listening = true;
+      const address = server.address();
+      resolve({
+        port: typeof address === "object" && address ? address.port : 0,
+        close: () =>
+          new Promise((done) => {
+            clearInterval(timer);
+            for (const seat of seats) {
+              seat.socket.terminate();
+            }
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}